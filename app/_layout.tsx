@@ -1,12 +1,46 @@
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { useEffect, useState } from "react";
+import { Alert } from "react-native";
+import { reconcileReminders } from "../services/notifications";
+import { runMigrations } from "../services/migrations";
 
 export default function RootLayout() {
+  const [ready, setReady] = useState(false);
+
+  // Stored data must be migrated and validated before any screen reads it.
+  // Then catch up on anything that changed while the app was closed (e.g. a past expiry).
+  useEffect(() => {
+    (async () => {
+      try {
+        await runMigrations();
+      } catch (e: any) {
+        // Screens still open on whatever is stored; getVisas skips invalid records
+        Alert.alert(
+          "Stored data not updated",
+          `${e?.message ?? "Unknown error"}\n\nYour records are shown as they were saved.`
+        );
+      } finally {
+        setReady(true);
+      }
+      reconcileReminders().catch(() => {});
+    })();
+  }, []);
+
+  if (!ready) return null;
+
   return (
     <>
       <Stack screenOptions={{ headerTitleAlign: "center" }}>
         <Stack.Screen name="index" options={{ title: "Overstayr" }} />
         <Stack.Screen name="add" options={{ title: "Add Visa" }} />
+        <Stack.Screen name="log-stay" options={{ title: "Log Stay" }} />
+        <Stack.Screen name="csv-import" options={{ title: "Import CSV" }} />
+        <Stack.Screen name="visa/[id]" options={{ title: "Visa" }} />
+        <Stack.Screen name="extend" options={{ title: "Extend Visa" }} />
+        <Stack.Screen name="residency" options={{ title: "Tax Residency" }} />
+        <Stack.Screen name="passports" options={{ title: "Passports" }} />
+        <Stack.Screen name="profiles" options={{ title: "Travellers" }} />
       </Stack>
       <StatusBar style="auto" />
     </>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -9,120 +9,302 @@ import {
   StyleSheet,
   ScrollView,
   KeyboardAvoidingView,
+  Switch,
 } from "react-native";
-import { useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { LinearGradient } from "expo-linear-gradient";
 import { Ionicons } from "@expo/vector-icons";
-import { saveVisa, Visa } from "../services/storage";
-import { ensureNotifPermission, scheduleVisaReminder } from "../services/notifications";
-import { getReminderSettings } from "../services/settings";
-
-function addDaysUTC(dateStr: string, days: number) {
-  const d = new Date(dateStr + "T00:00:00Z");
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
-
-function atLocalTime(dateUTC: Date, hour = 9, minute = 0) {
-  // Convert the UTC date to a LOCAL date at a specific time (e.g., 09:00)
-  const local = new Date(dateUTC);
-  local.setHours(hour, minute, 0, 0);
-  return local;
-}
-
-function isValidDateYYYYMMDD(s: string) {
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
-  const [y, m, d] = s.split("-").map(Number);
-  const date = new Date(y, m - 1, d);
-  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d;
-}
+import {
+  getStays,
+  getVisas,
+  ReminderOverride,
+  saveVisa,
+  updateVisa,
+  Visa,
+} from "../services/storage";
+import { MAX_OFFSET_DAYS, MIN_OFFSET_DAYS } from "../services/settings";
+import { ensureNotifPermission, reconcileReminders } from "../services/notifications";
+import { DURATION_UNITS, DurationUnit, isValidDateYYYYMMDD } from "../services/dates";
+import { MAX_DURATION, validateVisaInput } from "../services/validation";
+import { extensionsForStay, stayExpiry } from "../services/countdown";
+import { countryDayCounting, DayCounting, sameDayCounting } from "../services/day-counting";
+import {
+  countryTimeZone,
+  countryTimeZoneChoices,
+  deviceTimeZone,
+  isValidTimeZone,
+  timeZoneCity,
+} from "../services/timezones";
+import { checkPlannedStay, describeCap } from "../services/stay-caps";
+import { countryDisplay } from "../services/countries";
+import {
+  describePassport,
+  describePassportWarning,
+  passportWarning,
+  validityMarginMonths,
+} from "../services/passports";
+import { DEFAULT_PROFILE_ID, profileIdOf } from "../services/profiles";
+import { usePassports } from "../hooks/use-passports";
+import { useProfiles } from "../hooks/use-profiles";
+import { CountryPicker } from "../components/country-picker";
+import { DateField, PAST_QUICK_DATES } from "../components/date-field";
+import { ProfileFilter } from "../components/profile-filter";
 
 export default function AddVisa() {
   const router = useRouter();
+  // When an id is passed the form edits that visa instead of adding one; a
+  // profile picks the traveller for a new visa
+  const { id, profile } = useLocalSearchParams<{ id?: string; profile?: string }>();
+  const [existing, setExisting] = useState<Visa | null>(null);
 
   const [countryCode, setCountryCode] = useState("VN");
   const [visaLabel, setVisaLabel] = useState("Tourist");
   const [entryDate, setEntryDate] = useState(""); // YYYY-MM-DD
   const [durationDays, setDurationDays] = useState("30");
+  const [durationUnit, setDurationUnit] = useState<DurationUnit>("days");
+  const [multiEntry, setMultiEntry] = useState(false);
+  const [validUntil, setValidUntil] = useState(""); // YYYY-MM-DD, multi-entry only
+  // Per-visa reminder overrides; blank fields use the global settings
+  const [remindersMuted, setRemindersMuted] = useState(false);
+  const [customOffsets, setCustomOffsets] = useState(""); // e.g. "60, 30"
+  const [customTime, setCustomTime] = useState(""); // HH:MM
+  const [notes, setNotes] = useState("");
+  // Null follows the country's convention, so it changes with the country picked
+  const [dayCounting, setDayCounting] = useState<DayCounting | null>(null);
+  // Blank follows the country's main zone
+  const [timeZone, setTimeZone] = useState("");
+  const [passportId, setPassportId] = useState(""); // blank when not linked
+  const passports = usePassports();
+  const [profileId, setProfileId] = useState(profile || DEFAULT_PROFILE_ID);
+  const profiles = useProfiles();
   const [saving, setSaving] = useState(false);
 
+  useEffect(() => {
+    if (!id) return;
+    (async () => {
+      const v = (await getVisas()).find((x) => x.id === id);
+      if (!v) return;
+      setExisting(v);
+      setCountryCode(v.countryCode);
+      setVisaLabel(v.visaLabel);
+      setEntryDate(v.entryDate);
+      setDurationDays(String(v.durationDays));
+      setDurationUnit(v.durationUnit ?? "days");
+      setMultiEntry(!!v.multiEntry);
+      setValidUntil(v.validUntil ?? "");
+      const o = v.reminderOverride;
+      setRemindersMuted(!!o?.muted);
+      setCustomOffsets(o?.offsetsDays?.join(", ") ?? "");
+      setCustomTime(
+        o?.hour !== undefined && o?.minute !== undefined
+          ? `${String(o.hour).padStart(2, "0")}:${String(o.minute).padStart(2, "0")}`
+          : ""
+      );
+      setNotes(v.notes ?? "");
+      setDayCounting(v.dayCounting ?? null);
+      setTimeZone(v.timeZone ?? "");
+      setPassportId(v.passportId ?? "");
+      setProfileId(profileIdOf(v));
+    })();
+  }, [id]);
+
+  // The default traveller is stored as no profileId at all
+  const owner = profileId === DEFAULT_PROFILE_ID ? undefined : profileId;
+
+  // Keep logged stays, moving the first one along with an edited entry date
+  function nextStays(): Visa["stays"] {
+    if (existing?.stays?.length) {
+      const [first, ...rest] = existing.stays;
+      return [{ ...first, entryDate }, ...rest];
+    }
+    return multiEntry ? [{ entryDate }] : undefined;
+  }
+
+  // Expiry as the form stands, recomputed on every edit; null until the
+  // entry date and duration are both usable
+  function previewExpiry() {
+    const days = Number(durationDays.trim());
+    if (!isValidDateYYYYMMDD(entryDate) || !Number.isInteger(days) || days < 1) return null;
+
+    const draft: Visa = {
+      ...(existing ?? { id: "", visaLabel, createdAt: "" }),
+      countryCode,
+      entryDate,
+      durationDays: days,
+      durationUnit,
+      validUntil: multiEntry && isValidDateYYYYMMDD(validUntil) ? validUntil : undefined,
+      dayCounting: dayCounting ?? undefined,
+      stays: nextStays(),
+      passportId: passportId || undefined,
+      profileId: owner,
+    };
+    const first = nextStays()?.[0] ?? { entryDate };
+    const { expiry, cappedByValidity } = stayExpiry(draft, first);
+    return {
+      date: expiry.toISOString().slice(0, 10),
+      cappedByValidity,
+      extended: extensionsForStay(draft, first).length > 0,
+      passportWarning: passportWarning(draft, passports),
+    };
+  }
+  const expiryPreview = previewExpiry();
+
+  const countryCounting = countryDayCounting(countryCode);
+  const countryZone = countryTimeZone(countryCode);
+  const zone = timeZone.trim() || countryZone;
+  const zoneChoices = [
+    ...new Set([...countryTimeZoneChoices(countryCode), deviceTimeZone()]),
+  ];
+  const counting = dayCounting ?? countryCounting;
+  // The expiry-day rule only reads printed dates: a multi-entry visa's validity
+  // or an extension's new end date. Duration-based expiries don't use it.
+  const hasPrintedDate = multiEntry || !!existing?.extensions?.some((e) => e.newEndDate);
+  // Only the traveller's own passports can hold their visa
+  const ownPassports = passports.filter((p) => profileIdOf(p) === profileId);
+  const passportChoices = [
+    { id: "", label: "None" },
+    ...ownPassports.map((p) => ({ id: p.id, label: describePassport(p) })),
+  ];
+  const marginMonths = validityMarginMonths(countryCode);
+
+  function onTravellerChange(next: string) {
+    setProfileId(next);
+    if (passports.some((p) => p.id === passportId && profileIdOf(p) !== next)) {
+      setPassportId("");
+    }
+  }
+
   async function onSave() {
-    const cc = countryCode.trim().toUpperCase();
-    const label = visaLabel.trim();
-    const dd = durationDays.trim();
+    if (id && !existing) return; // still loading the visa being edited
 
-    if (cc.length !== 2) {
-      Alert.alert("Invalid country code", "Use a 2-letter code like VN, TH, JP.");
+    const checked = validateVisaInput({
+      countryCode,
+      visaLabel,
+      entryDate,
+      durationDays,
+      durationUnit,
+    });
+    if (!checked.ok) {
+      Alert.alert(checked.error.title, checked.error.message);
       return;
     }
-    if (!label) {
-      Alert.alert("Missing visa label", "Example: Tourist, Business, Student.");
-      return;
+    const { countryCode: cc, visaLabel: label, durationDays: days, durationUnit: unit } =
+      checked.value;
+
+    if (multiEntry) {
+      if (!isValidDateYYYYMMDD(validUntil)) {
+        Alert.alert(
+          "Invalid validity date",
+          "Use format YYYY-MM-DD (example: 2026-12-31)."
+        );
+        return;
+      }
+      if (validUntil < entryDate) {
+        Alert.alert("Invalid validity date", "Valid until must be after the entry date.");
+        return;
+      }
     }
-    if (!isValidDateYYYYMMDD(entryDate)) {
+
+    if (!isValidTimeZone(zone)) {
       Alert.alert(
-        "Invalid entry date",
-        "Use format YYYY-MM-DD (example: 2026-01-14)."
+        "Unknown time zone",
+        "Use an IANA name such as Asia/Makassar, or pick one of the suggestions."
       );
       return;
     }
 
-    const days = Number(dd);
-    if (!Number.isFinite(days) || days < 1 || days > 365) {
-      Alert.alert("Invalid duration", "Duration must be between 1 and 365 days.");
-      return;
+    const override: ReminderOverride = {};
+    if (remindersMuted) override.muted = true;
+
+    if (!remindersMuted && customOffsets.trim()) {
+      const parts = customOffsets.split(",").map((x) => Number(x.trim()));
+      if (
+        parts.some(
+          (n) => !Number.isInteger(n) || n < MIN_OFFSET_DAYS || n > MAX_OFFSET_DAYS
+        )
+      ) {
+        Alert.alert(
+          "Invalid reminder days",
+          `Use whole numbers from ${MIN_OFFSET_DAYS} to ${MAX_OFFSET_DAYS}, separated by commas (example: 60, 30).`
+        );
+        return;
+      }
+      override.offsetsDays = [...new Set(parts)].sort((a, b) => b - a);
+    }
+
+    if (!remindersMuted && customTime.trim()) {
+      const m = /^(\d{1,2}):(\d{2})$/.exec(customTime.trim());
+      const h = m ? Number(m[1]) : NaN;
+      const min = m ? Number(m[2]) : NaN;
+      if (!m || h > 23 || min > 59) {
+        Alert.alert("Invalid reminder time", "Use 24-hour HH:MM (example: 08:30).");
+        return;
+      }
+      override.hour = h;
+      override.minute = min;
     }
 
     const visa: Visa = {
-      id: `visa_${Date.now()}`,
+      // Anything this form doesn't edit, such as extensions, carries over
+      ...existing,
+      id: existing?.id ?? `visa_${Date.now()}`,
       countryCode: cc,
       visaLabel: label,
       entryDate,
       durationDays: days,
-      createdAt: new Date().toISOString(),
+      durationUnit: unit,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
       notificationIds: [],
+      multiEntry: multiEntry || undefined,
+      validUntil: multiEntry ? validUntil : undefined,
+      stays: nextStays(),
+      reminderOverride: Object.keys(override).length ? override : undefined,
+      notes: notes.trim() || undefined,
+      // Only kept when it differs, so fixes to the bundled rules still apply
+      dayCounting:
+        dayCounting && !sameDayCounting(dayCounting, countryDayCounting(cc))
+          ? dayCounting
+          : undefined,
+      timeZone: zone !== countryTimeZone(cc) ? zone : undefined,
+      passportId: passportId || undefined,
+      profileId: owner,
     };
 
+    // Yearly caps count all the traveller's visas for the country, so check the whole picture
+    const others = (await getVisas()).filter((v) => v.id !== visa.id);
+    const breach = checkPlannedStay(cc, [...others, visa], visa, getStays(visa)[0]);
+    if (breach) {
+      Alert.alert(
+        "Over the yearly limit",
+        `${countryDisplay(cc)} allows ${describeCap(breach.rule)}. This stay would go ` +
+          `over on ${breach.firstDayOver}; the last day within the limit is ` +
+          `${breach.lastDayWithinCap}.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Save anyway", onPress: () => persist(visa) },
+        ]
+      );
+      return;
+    }
+
+    await persist(visa);
+  }
+
+  async function persist(visa: Visa) {
     try {
       setSaving(true);
 
-      // Schedule notifications (mobile only)
-      if (Platform.OS !== "web") {
-        const hasPerm = await ensureNotifPermission();
-
-        if (hasPerm) {
-          const reminderSettings = await getReminderSettings();
-          const expiryUTC = addDaysUTC(entryDate, days);
-          const remindDays = reminderSettings.offsetsDays;
-          const scheduledIds: string[] = [];
-
-          for (const d of remindDays) {
-            const fireUTC = new Date(expiryUTC);
-            fireUTC.setUTCDate(fireUTC.getUTCDate() - d);
-
-            const fireLocal = atLocalTime(
-              fireUTC,
-              reminderSettings.hour,
-              reminderSettings.minute
-            );
-
-            const id = await scheduleVisaReminder({
-              title: "Visa reminder",
-              body:
-                d === 0
-                  ? `Your ${cc} visa expires today.`
-                  : `Your ${cc} visa expires in ${d} day(s).`,
-              date: fireLocal,
-            });
-
-            if (id) scheduledIds.push(id);
-          }
-
-          visa.notificationIds = scheduledIds;
-        }
+      if (existing) {
+        await updateVisa(visa);
+      } else {
+        await saveVisa(visa);
       }
 
-      await saveVisa(visa);
+      // Schedule notifications (mobile only); reminders for old dates are replaced
+      if (Platform.OS !== "web") {
+        await ensureNotifPermission();
+        await reconcileReminders();
+      }
 
       // reliable on web + mobile
       router.replace("/");
@@ -141,7 +323,7 @@ export default function AddVisa() {
           <Pressable onPress={() => router.back()} style={styles.backButton}>
             <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
           </Pressable>
-          <Text style={styles.headerTitle}>Add Visa</Text>
+          <Text style={styles.headerTitle}>{id ? "Edit Visa" : "Add Visa"}</Text>
           <View style={styles.headerSpacer} />
         </View>
       </LinearGradient>
@@ -156,19 +338,22 @@ export default function AddVisa() {
           contentContainerStyle={styles.scrollContent}
           keyboardShouldPersistTaps="handled"
         >
+          {profiles.length > 1 && (
+            <View style={styles.card}>
+              <Text style={styles.inputLabel}>Traveller</Text>
+              <ProfileFilter
+                profiles={profiles}
+                value={profileId}
+                onChange={(next) => onTravellerChange(next ?? DEFAULT_PROFILE_ID)}
+              />
+            </View>
+          )}
+
           <View style={styles.card}>
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Country Code</Text>
-              <Text style={styles.inputHint}>2-letter code (e.g., VN, TH, JP)</Text>
-              <TextInput
-                value={countryCode}
-                onChangeText={setCountryCode}
-                autoCapitalize="characters"
-                maxLength={2}
-                placeholder="VN"
-                placeholderTextColor="#999"
-                style={styles.input}
-              />
+              <Text style={styles.inputLabel}>Country</Text>
+              <Text style={styles.inputHint}>Search by name or 2-letter code</Text>
+              <CountryPicker value={countryCode} onChange={setCountryCode} />
             </View>
 
             <View style={styles.inputGroup}>
@@ -185,20 +370,40 @@ export default function AddVisa() {
 
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Entry Date</Text>
-              <Text style={styles.inputHint}>Format: YYYY-MM-DD</Text>
-              <TextInput
+              <Text style={styles.inputHint}>
+                {Platform.OS === "web" ? "Format: YYYY-MM-DD" : "Day you arrived"}
+              </Text>
+              <DateField
                 value={entryDate}
-                onChangeText={setEntryDate}
-                placeholder="2026-01-14"
-                placeholderTextColor="#999"
-                keyboardType="numbers-and-punctuation"
-                style={styles.input}
+                onChange={setEntryDate}
+                quickDates={PAST_QUICK_DATES}
               />
             </View>
 
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Duration</Text>
-              <Text style={styles.inputHint}>Number of days (1-365)</Text>
+              <Text style={styles.inputHint}>
+                {multiEntry ? "Allowed per entry" : "As written on the visa"} (1-
+                {MAX_DURATION[durationUnit]} {durationUnit})
+              </Text>
+              <View style={styles.segmentRow}>
+                {DURATION_UNITS.map((unit) => (
+                  <Pressable
+                    key={unit}
+                    onPress={() => setDurationUnit(unit)}
+                    style={[styles.segment, durationUnit === unit && styles.segmentSelected]}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        durationUnit === unit && styles.segmentTextSelected,
+                      ]}
+                    >
+                      {unit[0].toUpperCase() + unit.slice(1)}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
               <TextInput
                 value={durationDays}
                 onChangeText={setDurationDays}
@@ -207,6 +412,217 @@ export default function AddVisa() {
                 keyboardType="number-pad"
                 style={styles.input}
               />
+              {expiryPreview && (
+                <Text style={styles.previewText}>
+                  {multiEntry ? "First stay ends" : "Expires"} {expiryPreview.date}
+                  {expiryPreview.cappedByValidity ? " (validity ends first)" : ""}
+                  {expiryPreview.extended ? " (with extensions)" : ""}
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.inputLabel}>Multi-entry</Text>
+                <Text style={styles.inputHint}>
+                  Each entry gets its own stay within the validity window
+                </Text>
+              </View>
+              <Switch
+                value={multiEntry}
+                onValueChange={setMultiEntry}
+                trackColor={{ false: "#E0E0E0", true: "#0F3A5F" }}
+                thumbColor={multiEntry ? "#FFFFFF" : "#F4F4F4"}
+              />
+            </View>
+
+            {multiEntry && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Valid Until</Text>
+                <Text style={styles.inputHint}>End of the visa&apos;s validity, as printed</Text>
+                <DateField value={validUntil} onChange={setValidUntil} placeholder="2026-12-31" />
+              </View>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.inputLabel}>Passport</Text>
+            <Text style={styles.inputHint}>
+              {countryDisplay(countryCode)} wants it valid{" "}
+              {marginMonths ? `${marginMonths} months past the stay` : "for the whole stay"}
+            </Text>
+            {ownPassports.length === 0 ? (
+              <Pressable onPress={() => router.push("/passports")} style={styles.linkButton}>
+                <Ionicons name="id-card-outline" size={16} color="#0F3A5F" />
+                <Text style={styles.linkText}>Add a passport</Text>
+              </Pressable>
+            ) : (
+              <View style={styles.chipRow}>
+                {passportChoices.map((choice) => (
+                  <Pressable
+                    key={choice.id || "none"}
+                    onPress={() => setPassportId(choice.id)}
+                    style={[styles.chip, passportId === choice.id && styles.chipSelected]}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        passportId === choice.id && styles.chipTextSelected,
+                      ]}
+                    >
+                      {choice.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            {expiryPreview?.passportWarning && (
+              <Text style={styles.warningText}>
+                {describePassportWarning(expiryPreview.passportWarning)}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.inputLabel}>Day Counting</Text>
+            <Text style={styles.inputHint}>
+              {sameDayCounting(counting, countryCounting)
+                ? "Usual rule for this country"
+                : "Differs from the usual rule for this country"}
+            </Text>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.inputLabel}>Arrival Is Day 1</Text>
+                <Text style={styles.inputHint}>
+                  Off counts the arrival day as day 0, so the stay ends a day later
+                </Text>
+              </View>
+              <Switch
+                value={counting.entryDayCounts}
+                onValueChange={(on) => setDayCounting({ ...counting, entryDayCounts: on })}
+                trackColor={{ false: "#E0E0E0", true: "#0F3A5F" }}
+                thumbColor={counting.entryDayCounts ? "#FFFFFF" : "#F4F4F4"}
+              />
+            </View>
+
+            {hasPrintedDate && (
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text style={styles.inputLabel}>Printed Date Is Too Late</Text>
+                  <Text style={styles.inputHint}>
+                    On when a printed end date is the first day you must be gone
+                  </Text>
+                </View>
+                <Switch
+                  value={counting.expiryDay === "first-illegal"}
+                  onValueChange={(on) =>
+                    setDayCounting({
+                      ...counting,
+                      expiryDay: on ? "first-illegal" : "last-legal",
+                    })
+                  }
+                  trackColor={{ false: "#E0E0E0", true: "#0F3A5F" }}
+                  thumbColor={counting.expiryDay === "first-illegal" ? "#FFFFFF" : "#F4F4F4"}
+                />
+              </View>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.inputLabel}>Time Zone</Text>
+            <Text style={styles.inputHint}>
+              Days and reminder times follow this clock, not the phone&apos;s
+            </Text>
+            <View style={styles.chipRow}>
+              {zoneChoices.map((z) => (
+                <Pressable
+                  key={z}
+                  onPress={() => setTimeZone(z === countryZone ? "" : z)}
+                  style={[styles.chip, zone === z && styles.chipSelected]}
+                >
+                  <Text style={[styles.chipText, zone === z && styles.chipTextSelected]}>
+                    {timeZoneCity(z)}
+                    {z === deviceTimeZone() ? " (phone)" : ""}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <TextInput
+              value={timeZone}
+              onChangeText={setTimeZone}
+              placeholder={countryZone}
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={styles.input}
+            />
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.inputLabel}>Mute Reminders</Text>
+                <Text style={styles.inputHint}>No notifications for this visa</Text>
+              </View>
+              <Switch
+                value={remindersMuted}
+                onValueChange={setRemindersMuted}
+                trackColor={{ false: "#E0E0E0", true: "#0F3A5F" }}
+                thumbColor={remindersMuted ? "#FFFFFF" : "#F4F4F4"}
+              />
+            </View>
+
+            {!remindersMuted && (
+              <>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Custom Reminder Days</Text>
+                  <Text style={styles.inputHint}>
+                    Days before expiry, comma-separated. Leave blank to use Settings.
+                  </Text>
+                  <TextInput
+                    value={customOffsets}
+                    onChangeText={setCustomOffsets}
+                    placeholder="60, 30"
+                    placeholderTextColor="#999"
+                    keyboardType="numbers-and-punctuation"
+                    style={styles.input}
+                  />
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Custom Reminder Time</Text>
+                  <Text style={styles.inputHint}>
+                    24-hour HH:MM. Leave blank to use Settings.
+                  </Text>
+                  <TextInput
+                    value={customTime}
+                    onChangeText={setCustomTime}
+                    placeholder="09:00"
+                    placeholderTextColor="#999"
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={5}
+                    style={styles.input}
+                  />
+                </View>
+              </>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Notes</Text>
+              <Text style={styles.inputHint}>
+                Anything worth keeping with this visa, e.g. application number
+              </Text>
+              <TextInput
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Optional"
+                placeholderTextColor="#999"
+                multiline
+                style={[styles.input, styles.notesInput]}
+              />
             </View>
           </View>
 
@@ -225,14 +641,14 @@ export default function AddVisa() {
               color="#FFFFFF"
             />
             <Text style={styles.saveButtonText}>
-              {saving ? "Saving..." : "Save Visa"}
+              {saving ? "Saving..." : id ? "Save Changes" : "Save Visa"}
             </Text>
           </Pressable>
 
           <View style={styles.infoContainer}>
             <Ionicons name="notifications-outline" size={16} color="#666" />
             <Text style={styles.infoText}>
-              Reminders will be scheduled based on your settings.
+              Reminders will be scheduled based on your settings unless customised above.
             </Text>
           </View>
         </ScrollView>
@@ -303,6 +719,74 @@ const styles = StyleSheet.create({
     color: "#888",
     marginBottom: 10,
   },
+  segmentRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 10,
+  },
+  segment: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  segmentSelected: {
+    backgroundColor: "#0F3A5F",
+  },
+  segmentText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  segmentTextSelected: {
+    color: "#FFFFFF",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  chipSelected: {
+    backgroundColor: "#0F3A5F",
+  },
+  chipText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+  warningText: {
+    fontSize: 14,
+    color: "#8A5A00",
+    fontWeight: "600",
+  },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 10,
+  },
+  linkText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  previewText: {
+    fontSize: 14,
+    color: "#666",
+    fontWeight: "600",
+    marginTop: 10,
+  },
   input: {
     backgroundColor: "#F4F6F8",
     borderRadius: 12,
@@ -311,6 +795,20 @@ const styles = StyleSheet.create({
     color: "#0B2E4A",
     fontWeight: "500",
   },
+  notesInput: {
+    minHeight: 90,
+    textAlignVertical: "top",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 20,
+  },
+  switchText: {
+    flex: 1,
+    paddingRight: 12,
+  },
   saveButton: {
     flexDirection: "row",
     alignItems: "center",
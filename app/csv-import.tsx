@@ -0,0 +1,432 @@
+import { useMemo, useState } from "react";
+import { View, Text, Pressable, Alert, StyleSheet, ScrollView } from "react-native";
+import { useRouter } from "expo-router";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  ColumnMapping,
+  CSV_FIELDS,
+  CsvField,
+  DATE_FORMATS,
+  DateFormat,
+  detectDateFormat,
+  guessMapping,
+  importCsvVisas,
+  pickCsv,
+  previewCsvImport,
+} from "../services/csv";
+import { describeDuration } from "../services/dates";
+import { useVisas } from "../hooks/use-visas";
+
+// Show at most this many rows of the preview; the import takes all of them
+const PREVIEW_LIMIT = 20;
+
+export default function CsvImport() {
+  const router = useRouter();
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>("YYYY-MM-DD");
+  const [importing, setImporting] = useState(false);
+  const visas = useVisas();
+
+  const headers = rows?.[0] ?? [];
+
+  const preview = useMemo(
+    () =>
+      rows && mapping
+        ? previewCsvImport(rows, mapping, dateFormat, visas.map((v) => v.id))
+        : null,
+    [rows, mapping, dateFormat, visas]
+  );
+
+  function detectFormat(allRows: string[][], entryColumn: number | null) {
+    if (entryColumn === null) return;
+    const detected = detectDateFormat(allRows.slice(1).map((r) => r[entryColumn] ?? ""));
+    if (detected) setDateFormat(detected);
+  }
+
+  async function onPick() {
+    try {
+      const picked = await pickCsv();
+      if (!picked) return;
+      const guessed = guessMapping(picked[0]);
+      setRows(picked);
+      setMapping(guessed);
+      detectFormat(picked, guessed.entryDate);
+    } catch (e: any) {
+      Alert.alert("Can't read this file", e?.message ?? "Unknown error");
+    }
+  }
+
+  function onMap(field: CsvField, column: number | null) {
+    if (!rows || !mapping) return;
+    setMapping({ ...mapping, [field]: column });
+    if (field === "entryDate") detectFormat(rows, column);
+  }
+
+  async function onImport() {
+    if (!preview || preview.visas.length === 0) return;
+
+    try {
+      setImporting(true);
+      const added = await importCsvVisas(preview.visas);
+      const skipped = preview.errors.length;
+      const present = preview.duplicates.length + preview.visas.length - added;
+      Alert.alert(
+        "Import complete",
+        `Imported ${added} visa(s).` +
+          (skipped ? ` ${skipped} row(s) with errors were skipped.` : "") +
+          (present ? ` ${present} visa(s) already on this device were left as they are.` : "")
+      );
+      router.replace("/");
+    } catch (e: any) {
+      Alert.alert("Import failed", e?.message ?? "Unknown error");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  const canImport = !!preview && preview.visas.length > 0 && !importing;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <LinearGradient colors={["#0B2E4A", "#0F3A5F"]} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Import CSV</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+      </LinearGradient>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {/* File */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Spreadsheet file</Text>
+          <Text style={styles.cardDescription}>
+            One visa per row with a header row. Country code, visa label, entry date and
+            duration are required; an exit date column adds a finished stay, and a stays
+            column, as in this app&apos;s own export, brings back every stay as logged. With
+            an id column, visas already here are skipped.
+          </Text>
+          <Pressable
+            onPress={onPick}
+            style={({ pressed }) => [styles.pickButton, pressed && styles.pickButtonPressed]}
+          >
+            <Ionicons name="document-text-outline" size={18} color="#0F3A5F" />
+            <Text style={styles.pickButtonText}>
+              {rows ? `${rows.length - 1} row(s) loaded • Choose another` : "Choose CSV file"}
+            </Text>
+          </Pressable>
+        </View>
+
+        {rows && mapping && (
+          <>
+            {/* Column mapping */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Columns</Text>
+              {CSV_FIELDS.map((f) => (
+                <View key={f.key} style={styles.fieldGroup}>
+                  <Text style={styles.fieldLabel}>
+                    {f.label}
+                    {f.required ? "" : " (optional)"}
+                  </Text>
+                  <View style={styles.chipRow}>
+                    {!f.required && (
+                      <Chip
+                        label="None"
+                        selected={mapping[f.key] === null}
+                        onPress={() => onMap(f.key, null)}
+                      />
+                    )}
+                    {headers.map((h, i) => (
+                      <Chip
+                        key={`${h}_${i}`}
+                        label={h.trim() || `Column ${i + 1}`}
+                        selected={mapping[f.key] === i}
+                        onPress={() => onMap(f.key, i)}
+                      />
+                    ))}
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            {/* Date format */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Date format</Text>
+              <Text style={styles.cardDescription}>
+                Detected from the entry dates. Day and month can only be told apart once a
+                day above 12 appears, so check it before importing.
+              </Text>
+              <View style={styles.chipRow}>
+                {DATE_FORMATS.map((f) => (
+                  <Chip
+                    key={f}
+                    label={f}
+                    selected={dateFormat === f}
+                    onPress={() => setDateFormat(f)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            {/* Preview */}
+            {preview && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  {preview.visas.length} ready • {preview.errors.length} with errors
+                  {preview.duplicates.length
+                    ? ` • ${preview.duplicates.length} already here`
+                    : ""}
+                </Text>
+
+                {preview.visas.slice(0, PREVIEW_LIMIT).map((v) => (
+                  <Text key={v.id} style={styles.previewRow}>
+                    {v.countryCode} • {v.visaLabel} • {v.entryDate} •{" "}
+                    {describeDuration(v.durationDays, v.durationUnit)}
+                    {v.stays?.[0]?.exitDate ? ` • left ${v.stays[0].exitDate}` : ""}
+                  </Text>
+                ))}
+                {preview.visas.length > PREVIEW_LIMIT && (
+                  <Text style={styles.previewMore}>
+                    and {preview.visas.length - PREVIEW_LIMIT} more
+                  </Text>
+                )}
+
+                {preview.errors.length > 0 && (
+                  <View style={styles.errorList}>
+                    <Text style={styles.errorTitle}>These rows will be skipped</Text>
+                    {preview.errors.map((e) => (
+                      <Text key={`${e.row}_${e.message}`} style={styles.errorRow}>
+                        Row {e.row}: {e.message}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+
+                {preview.duplicates.length > 0 && (
+                  <View style={styles.errorList}>
+                    <Text style={styles.duplicateTitle}>Already on this device</Text>
+                    {preview.duplicates.map((e) => (
+                      <Text key={`${e.row}_${e.message}`} style={styles.errorRow}>
+                        Row {e.row}: {e.message}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+              </View>
+            )}
+
+            <Pressable
+              onPress={onImport}
+              disabled={!canImport}
+              style={({ pressed }) => [
+                styles.saveButton,
+                !canImport && styles.saveButtonDisabled,
+                pressed && styles.saveButtonPressed,
+              ]}
+            >
+              <Ionicons
+                name={importing ? "hourglass-outline" : "checkmark-circle-outline"}
+                size={20}
+                color="#FFFFFF"
+              />
+              <Text style={styles.saveButtonText}>
+                {importing
+                  ? "Importing..."
+                  : `Import ${preview?.visas.length ?? 0} visa(s)`}
+              </Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable onPress={onPress} style={[styles.chip, selected && styles.chipSelected]}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F4F6F8",
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0B2E4A",
+    marginBottom: 8,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: "#666",
+    lineHeight: 20,
+  },
+  pickButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 14,
+  },
+  pickButtonPressed: {
+    opacity: 0.8,
+  },
+  pickButtonText: {
+    color: "#0F3A5F",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+  fieldGroup: {
+    marginTop: 8,
+  },
+  fieldLabel: {
+    fontWeight: "700",
+    fontSize: 14,
+    color: "#0B2E4A",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  chip: {
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  chipSelected: {
+    backgroundColor: "#0F3A5F",
+  },
+  chipText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+  previewRow: {
+    fontSize: 14,
+    color: "#0B2E4A",
+    marginTop: 4,
+  },
+  previewMore: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 4,
+  },
+  errorList: {
+    marginTop: 14,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: "#FDECEA",
+  },
+  errorTitle: {
+    fontWeight: "700",
+    fontSize: 14,
+    color: "#C0392B",
+    marginBottom: 4,
+  },
+  duplicateTitle: {
+    fontWeight: "700",
+    fontSize: 14,
+    color: "#0F3A5F",
+    marginBottom: 4,
+  },
+  errorRow: {
+    fontSize: 13,
+    color: "#C0392B",
+    marginTop: 2,
+  },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 16,
+    borderRadius: 14,
+    shadowColor: "#0B2E4A",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  saveButtonPressed: {
+    opacity: 0.9,
+    transform: [{ scale: 0.98 }],
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 17,
+    fontWeight: "700",
+  },
+});
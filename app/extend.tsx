@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+import { addExtension, Extension, getVisas, Visa } from "../services/storage";
+import { reconcileReminders } from "../services/notifications";
+import { currentStay, stayExpiry } from "../services/countdown";
+import { isValidDateYYYYMMDD, localTodayISO } from "../services/dates";
+import { DateField, PAST_QUICK_DATES } from "../components/date-field";
+
+type ExtendBy = "days" | "date";
+
+export default function ExtendVisa() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [visa, setVisa] = useState<Visa | null>(null);
+  const [grantedDate, setGrantedDate] = useState(localTodayISO()); // YYYY-MM-DD
+  const [extendBy, setExtendBy] = useState<ExtendBy>("days");
+  const [extraDays, setExtraDays] = useState("30");
+  const [newEndDate, setNewEndDate] = useState(""); // YYYY-MM-DD
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const visas = await getVisas();
+      setVisa(visas.find((v) => v.id === id) ?? null);
+    })();
+  }, [id]);
+
+  // Extensions belong to the stay they're granted in
+  const stay = visa ? currentStay(visa) : null;
+  const currentExpiry =
+    visa && stay ? stayExpiry(visa, stay).expiry.toISOString().slice(0, 10) : null;
+
+  // The extension as entered, or an error message to show instead
+  function buildExtension(): Extension | string {
+    if (!isValidDateYYYYMMDD(grantedDate)) {
+      return "Use format YYYY-MM-DD for the granted date (example: 2026-01-14).";
+    }
+    if (stay && grantedDate < stay.entryDate) {
+      return `The granted date must be on or after the entry (${stay.entryDate}).`;
+    }
+
+    const base = {
+      id: `ext_${Date.now()}`,
+      grantedDate,
+      reference: reference.trim() || undefined,
+    };
+
+    if (extendBy === "days") {
+      const days = Number(extraDays.trim());
+      if (!Number.isInteger(days) || days < 1) return "Enter the number of extra days granted.";
+      return { ...base, extraDays: days };
+    }
+
+    if (!isValidDateYYYYMMDD(newEndDate)) {
+      return "Use format YYYY-MM-DD for the new end date (example: 2026-03-31).";
+    }
+    if (currentExpiry && newEndDate <= currentExpiry) {
+      return `The new end date must be after the current expiry (${currentExpiry}).`;
+    }
+    return { ...base, newEndDate };
+  }
+
+  // What the expiry becomes, shown before saving
+  const draft = visa && stay ? buildExtension() : null;
+  const preview =
+    visa && stay && draft && typeof draft !== "string"
+      ? stayExpiry({ ...visa, extensions: [...(visa.extensions ?? []), draft] }, stay)
+          .expiry.toISOString()
+          .slice(0, 10)
+      : null;
+
+  async function onSave() {
+    if (!visa) return;
+
+    if (!stay) {
+      Alert.alert("Not in the country", "Extensions apply to a stay. Log an entry first.");
+      return;
+    }
+    const extension = buildExtension();
+    if (typeof extension === "string") {
+      Alert.alert("Invalid extension", extension);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await addExtension(visa.id, extension);
+
+      // Reminders move to the new expiry
+      await reconcileReminders();
+
+      router.back();
+    } catch (e: any) {
+      Alert.alert("Save failed", e?.message ?? "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <LinearGradient colors={["#0B2E4A", "#0F3A5F"]} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Extend Visa</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+      </LinearGradient>
+
+      {/* Content */}
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {visa ? `${visa.countryCode} • ${visa.visaLabel}` : "Visa not found"}
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Granted On</Text>
+              <Text style={styles.inputHint}>
+                {Platform.OS === "web" ? "Format: YYYY-MM-DD" : "Tap to pick a date"}
+              </Text>
+              <DateField
+                value={grantedDate}
+                onChange={setGrantedDate}
+                quickDates={PAST_QUICK_DATES}
+              />
+            </View>
+
+            <View style={styles.segmentRow}>
+              {(
+                [
+                  ["days", "Extra days"],
+                  ["date", "New end date"],
+                ] as [ExtendBy, string][]
+              ).map(([value, label]) => (
+                <Pressable
+                  key={value}
+                  onPress={() => setExtendBy(value)}
+                  style={[styles.segment, extendBy === value && styles.segmentSelected]}
+                >
+                  <Text
+                    style={[styles.segmentText, extendBy === value && styles.segmentTextSelected]}
+                  >
+                    {label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {extendBy === "days" ? (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Extra Days</Text>
+                <Text style={styles.inputHint}>Added to the current expiry</Text>
+                <TextInput
+                  value={extraDays}
+                  onChangeText={setExtraDays}
+                  placeholder="30"
+                  placeholderTextColor="#999"
+                  keyboardType="number-pad"
+                  style={styles.input}
+                />
+              </View>
+            ) : (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>New End Date</Text>
+                <Text style={styles.inputHint}>End date as printed on the extension</Text>
+                <DateField value={newEndDate} onChange={setNewEndDate} placeholder="2026-03-31" />
+              </View>
+            )}
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Reference Number</Text>
+              <Text style={styles.inputHint}>Optional, e.g. from the receipt or decision</Text>
+              <TextInput
+                value={reference}
+                onChangeText={setReference}
+                placeholder="Optional"
+                placeholderTextColor="#999"
+                autoCapitalize="characters"
+                style={styles.input}
+              />
+            </View>
+
+            {currentExpiry ? (
+              <Text style={styles.previewText}>
+                Expires {currentExpiry}
+                {preview ? ` → ${preview}` : ""}
+              </Text>
+            ) : (
+              visa && (
+                <Text style={styles.previewText}>
+                  Not in the country. Extensions apply to a stay, so log an entry first.
+                </Text>
+              )
+            )}
+          </View>
+
+          <Pressable
+            onPress={onSave}
+            disabled={saving || !visa}
+            style={({ pressed }) => [
+              styles.saveButton,
+              (saving || !visa) && styles.saveButtonDisabled,
+              pressed && styles.saveButtonPressed,
+            ]}
+          >
+            <Ionicons
+              name={saving ? "hourglass-outline" : "checkmark-circle-outline"}
+              size={20}
+              color="#FFFFFF"
+            />
+            <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save Extension"}</Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F4F6F8",
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0B2E4A",
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontWeight: "700",
+    fontSize: 15,
+    color: "#0B2E4A",
+    marginBottom: 4,
+  },
+  inputHint: {
+    fontSize: 13,
+    color: "#888",
+    marginBottom: 10,
+  },
+  input: {
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "500",
+  },
+  segmentRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  segmentSelected: {
+    backgroundColor: "#0F3A5F",
+  },
+  segmentText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  segmentTextSelected: {
+    color: "#FFFFFF",
+  },
+  previewText: {
+    fontSize: 14,
+    color: "#666",
+    fontWeight: "600",
+  },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 16,
+    borderRadius: 14,
+    shadowColor: "#0B2E4A",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  saveButtonPressed: {
+    opacity: 0.9,
+    transform: [{ scale: 0.98 }],
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 17,
+    fontWeight: "700",
+  },
+});
@@ -3,56 +3,75 @@ import {
   View,
   Text,
   Pressable,
-  FlatList,
+  SectionList,
   Alert,
   Image,
   StyleSheet,
 } from "react-native";
 import { useFocusEffect, useRouter } from "expo-router";
-import { getVisas, Visa, deleteVisa } from "../services/storage";
+import { getStays, Visa, deleteVisa } from "../services/storage";
+import { useVisas } from "../hooks/use-visas";
+import { usePassports } from "../hooks/use-passports";
+import { useProfiles } from "../hooks/use-profiles";
+import { useNow } from "../hooks/use-now";
 import { cancelScheduled } from "../services/notifications";
-import { isOnboardingDone } from "../services/settings";
+import { getResidencySettings, isOnboardingDone } from "../services/settings";
+import {
+  describeSchengenLimit,
+  SchengenStatus,
+  SCHENGEN_MAX_DAYS,
+  visaCountdown,
+  VisaCountdown,
+} from "../services/schengen";
+import { currentStay, departure, Departure, visaStatus } from "../services/countdown";
+import { estimateFine, formatFine } from "../services/fines";
+import { countryDisplay } from "../services/countries";
+import { describeDuration } from "../services/dates";
+import { formatTimeLeft } from "../services/timezones";
+import { capPeriodLabel, stayCapStatus, StayCapStatus } from "../services/stay-caps";
+import { RESIDENCY_THRESHOLD_DAYS, residencyOverview } from "../services/residency";
+import {
+  describePassportWarning,
+  passportWarning,
+  PassportWarning,
+} from "../services/passports";
+import { findProfile, profileIdOf, sameTraveller } from "../services/profiles";
+import { ProfileFilter } from "../components/profile-filter";
 import { LinearGradient } from "expo-linear-gradient";
 import { Ionicons } from "@expo/vector-icons";
 
-/* ---------------- helpers ---------------- */
-
-function addDays(dateStr: string, days: number) {
-  const d = new Date(dateStr + "T00:00:00Z");
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
-
-function daysBetweenUTC(a: Date, b: Date) {
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const a0 = Date.UTC(a.getUTCFullYear(), a.getUTCMonth(), a.getUTCDate());
-  const b0 = Date.UTC(b.getUTCFullYear(), b.getUTCMonth(), b.getUTCDate());
-  return Math.floor((b0 - a0) / msPerDay);
-}
-
-function computeCountdown(v: Visa) {
-  const expiry = addDays(v.entryDate, v.durationDays);
-  const today = new Date();
-  const daysRemaining = daysBetweenUTC(today, expiry);
-  return { expiry, daysRemaining };
-}
+/* ---------------- types ---------------- */
 
 type VisaCardItem = Visa & {
+  expiry: Date;
   expiryISO: string;
+  endsAt: Date;
   daysRemaining: number;
+  inCountry: boolean;
+  extended: boolean;
+  schengen?: SchengenStatus;
+  limitedBy: VisaCountdown["limitedBy"];
+  cap: StayCapStatus | null; // set for countries with a yearly limit
+  passportWarning: PassportWarning | null;
+  departure: Departure | null; // set for visas in the History section
 };
 
 /* ---------------- screen ---------------- */
 
 export default function Home() {
   const router = useRouter();
-  const [visas, setVisas] = useState<Visa[]>([]);
+  // Re-renders whenever the storage layer writes, wherever the change came from
+  const visas = useVisas();
+  const passports = usePassports();
+  const profiles = useProfiles();
+  // Ticks the last-day countdown and moves the day counts along past midnight
+  const now = useNow();
   const [checkingOnboarding, setCheckingOnboarding] = useState(true);
-
-  const load = useCallback(async () => {
-    const v = await getVisas();
-    setVisas(v);
-  }, []);
+  const [taxYearStarts, setTaxYearStarts] = useState<Record<string, string>>({});
+  // The traveller whose visas are shown, or null for everyone. A traveller
+  // deleted since they were picked falls back to everyone.
+  const [picked, setTraveller] = useState<string | null>(null);
+  const traveller = profiles.some((p) => p.id === picked) ? picked : null;
 
   /* onboarding guard */
   useEffect(() => {
@@ -66,19 +85,40 @@ export default function Home() {
     })();
   }, [router]);
 
+  // Tax-year starts can change on the residency screen, so re-read on return
   useFocusEffect(
     useCallback(() => {
-      load();
-    }, [load])
+      getResidencySettings()
+        .then((s) => setTaxYearStarts(s.taxYearStarts))
+        .catch(() => {});
+    }, [])
+  );
+
+  // Countries close to or past the tax-residency threshold this tax year,
+  // counted separately for each traveller shown
+  const residencyAlerts = useMemo(
+    () =>
+      profiles
+        .filter((p) => traveller === null || p.id === traveller)
+        .flatMap((p) =>
+          residencyOverview(sameTraveller(visas, { profileId: p.id }), taxYearStarts, 0, now)
+            .filter((r) => r.level !== "ok")
+            .map((r) => ({ ...r, profileId: p.id }))
+        ),
+    [visas, profiles, traveller, taxYearStarts, now]
   );
 
-  const data: VisaCardItem[] = useMemo(() => {
-    const withCountdown = visas.map((v) => {
-      const { expiry, daysRemaining } = computeCountdown(v);
+  const sections = useMemo(() => {
+    const shown = traveller === null ? visas : visas.filter((v) => profileIdOf(v) === traveller);
+    const withCountdown: VisaCardItem[] = shown.map((v) => {
+      const countdown = visaCountdown(v, visas, now);
       return {
         ...v,
-        expiryISO: expiry.toISOString().slice(0, 10),
-        daysRemaining,
+        ...countdown,
+        expiryISO: countdown.expiry.toISOString().slice(0, 10),
+        cap: stayCapStatus(v.countryCode, sameTraveller(visas, v), now),
+        passportWarning: passportWarning(v, passports),
+        departure: departure(v),
       };
     });
 
@@ -89,13 +129,25 @@ export default function Home() {
       return 3;
     }
 
-    return [...withCountdown].sort((a, b) => {
-      const ra = rank(a);
-      const rb = rank(b);
-      if (ra !== rb) return ra - rb;
-      return a.daysRemaining - b.daysRemaining;
-    });
-  }, [visas]);
+    const active = withCountdown
+      .filter((x) => !x.departure)
+      .sort((a, b) => {
+        const ra = rank(a);
+        const rb = rank(b);
+        if (ra !== rb) return ra - rb;
+        return a.daysRemaining - b.daysRemaining;
+      });
+
+    // Most recent departure first
+    const history = withCountdown
+      .filter((x) => x.departure)
+      .sort((a, b) => b.departure!.date.localeCompare(a.departure!.date));
+
+    return [
+      { key: "active", title: null, data: active },
+      { key: "history", title: "History", data: history },
+    ].filter((section) => section.data.length > 0);
+  }, [visas, passports, traveller, now]);
 
   if (checkingOnboarding) {
     return <View style={{ flex: 1, backgroundColor: "#F4F6F8" }} />;
@@ -103,6 +155,18 @@ export default function Home() {
 
   /* ---------------- UI ---------------- */
 
+  // Names and colours only matter once more than one traveller is tracked
+  function renderOwner(item: VisaCardItem) {
+    if (profiles.length < 2) return null;
+    const owner = findProfile(profiles, item.profileId);
+    return (
+      <View style={styles.ownerRow}>
+        <View style={[styles.ownerDot, { backgroundColor: owner.color }]} />
+        <Text style={styles.cardDetails}>{owner.name}</Text>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -115,19 +179,37 @@ export default function Home() {
             />
             <Text style={styles.headerTitle}>Overstayr</Text>
           </View>
-          <Pressable
-            onPress={() => router.push("/settings")}
-            style={styles.settingsButton}
-          >
-            <Ionicons name="settings-outline" size={24} color="#FFFFFF" />
-          </Pressable>
+          <View style={styles.headerButtons}>
+            <Pressable
+              onPress={() => router.push("/passports")}
+              style={styles.settingsButton}
+            >
+              <Ionicons name="id-card-outline" size={24} color="#FFFFFF" />
+            </Pressable>
+            <Pressable
+              onPress={() => router.push("/residency")}
+              style={styles.settingsButton}
+            >
+              <Ionicons name="pie-chart-outline" size={24} color="#FFFFFF" />
+            </Pressable>
+            <Pressable
+              onPress={() => router.push("/settings")}
+              style={styles.settingsButton}
+            >
+              <Ionicons name="settings-outline" size={24} color="#FFFFFF" />
+            </Pressable>
+          </View>
         </View>
       </LinearGradient>
 
       {/* Content */}
       <View style={styles.content}>
         <Pressable
-          onPress={() => router.push("/add")}
+          onPress={() =>
+            router.push(
+              traveller ? { pathname: "/add", params: { profile: traveller } } : "/add"
+            )
+          }
           style={({ pressed }) => [
             styles.addButton,
             pressed && styles.addButtonPressed,
@@ -137,7 +219,41 @@ export default function Home() {
           <Text style={styles.addButtonText}>Add Visa</Text>
         </Pressable>
 
-        {data.length === 0 ? (
+        {/* With only the default traveller this is just the way to add more */}
+        <View style={styles.travellerFilter}>
+          <ProfileFilter
+            profiles={profiles.length > 1 ? profiles : []}
+            value={traveller}
+            onChange={setTraveller}
+            allowAll={profiles.length > 1}
+            onManage={() => router.push("/profiles")}
+          />
+        </View>
+
+        {residencyAlerts.map((r) => (
+          <Pressable
+            key={`${r.profileId}-${r.countryCode}`}
+            onPress={() =>
+              router.push({ pathname: "/residency", params: { profile: r.profileId } })
+            }
+            style={[styles.residencyBanner, r.level === "reached" && styles.residencyBannerOver]}
+          >
+            <Ionicons
+              name="warning-outline"
+              size={18}
+              color={r.level === "reached" ? "#8A1F1F" : "#8A5A00"}
+            />
+            <Text style={styles.residencyBannerText}>
+              {profiles.length > 1 ? `${findProfile(profiles, r.profileId).name} • ` : ""}
+              {countryDisplay(r.countryCode)}: {r.daysPresent}/{RESIDENCY_THRESHOLD_DAYS} days
+              this tax year
+              {r.projectedDate ? ` • ${RESIDENCY_THRESHOLD_DAYS} on ${r.projectedDate}` : ""}
+            </Text>
+            <Ionicons name="chevron-forward" size={16} color="#888" />
+          </Pressable>
+        ))}
+
+        {sections.length === 0 ? (
           <View style={styles.emptyState}>
             <View style={styles.emptyIconContainer}>
               <Text style={styles.emptyIcon}>✈️</Text>
@@ -148,27 +264,75 @@ export default function Home() {
             </Text>
           </View>
         ) : (
-          <FlatList
-            data={data}
+          <SectionList
+            sections={sections}
             keyExtractor={(item) => item.id}
+            stickySectionHeadersEnabled={false}
+            renderSectionHeader={({ section }) =>
+              section.title ? <Text style={styles.sectionTitle}>{section.title}</Text> : null
+            }
             contentContainerStyle={styles.listContent}
             showsVerticalScrollIndicator={false}
             renderItem={({ item }) => {
+              if (item.departure) {
+                const { date, daysBeforeExpiry, onTime } = item.departure;
+                return (
+                  <Pressable
+                    onPress={() =>
+                      router.push({ pathname: "/visa/[id]", params: { id: item.id } })
+                    }
+                    style={({ pressed }) => [
+                      styles.card,
+                      styles.historyCard,
+                      { borderLeftColor: onTime ? "#2ECC71" : "#E74C3C" },
+                      pressed && styles.cardPressed,
+                    ]}
+                  >
+                    <View style={styles.cardHeader}>
+                      <Text style={styles.cardTitle}>
+                        {countryDisplay(item.countryCode)} • {item.visaLabel}
+                      </Text>
+                      <View
+                        style={[
+                          styles.badge,
+                          { backgroundColor: onTime ? "#E8F7EE" : "#FFECEC" },
+                        ]}
+                      >
+                        <Text
+                          style={[styles.badgeText, { color: onTime ? "#116A2E" : "#8A1F1F" }]}
+                        >
+                          {onTime ? "ON TIME" : "LATE"}
+                        </Text>
+                      </View>
+                    </View>
+                    {renderOwner(item)}
+                    <Text style={styles.cardDetails}>
+                      Entry: {item.entryDate} • Departed: {date}
+                    </Text>
+                    <Text style={styles.cardDetails}>
+                      {daysBeforeExpiry === 0
+                        ? "Left on the last allowed day"
+                        : onTime
+                        ? `Left ${daysBeforeExpiry} day(s) before expiry`
+                        : `Left ${-daysBeforeExpiry} day(s) after expiry`}
+                    </Text>
+                  </Pressable>
+                );
+              }
+
               const expired = item.daysRemaining < 0;
+              const entryCount = getStays(item).length;
 
-              const status = expired
-                ? "expired"
-                : item.daysRemaining <= 6
-                ? "urgent"
-                : item.daysRemaining <= 14
-                ? "warning"
-                : "safe";
+              const status = visaStatus(item.daysRemaining, item.inCountry);
+              const overstaying = status === "overstay";
+              const fine = overstaying ? estimateFine(item.countryCode, -item.daysRemaining) : null;
 
               const badge = {
                 safe: { label: "SAFE", bg: "#E8F7EE", fg: "#116A2E" },
                 warning: { label: "WARNING", bg: "#FFF7E6", fg: "#8A5A00" },
                 urgent: { label: "URGENT", bg: "#FFECEC", fg: "#8A1F1F" },
                 expired: { label: "EXPIRED", bg: "#F2F2F2", fg: "#333333" },
+                overstay: { label: "OVERSTAY", bg: "#C0392B", fg: "#FFFFFF" },
               }[status];
 
               const accent = {
@@ -176,6 +340,7 @@ export default function Home() {
                 warning: "#F5B301",
                 urgent: "#E74C3C",
                 expired: "#888888",
+                overstay: "#C0392B",
               }[status];
 
               async function onDelete() {
@@ -192,7 +357,6 @@ export default function Home() {
                           await cancelScheduled(item.notificationIds);
                         }
                         await deleteVisa(item.id);
-                        await load();
                       },
                     },
                   ]
@@ -200,10 +364,19 @@ export default function Home() {
               }
 
               return (
-                <View style={[styles.card, { borderLeftColor: accent }]}>
+                <Pressable
+                  onPress={() =>
+                    router.push({ pathname: "/visa/[id]", params: { id: item.id } })
+                  }
+                  style={({ pressed }) => [
+                    styles.card,
+                    { borderLeftColor: accent },
+                    pressed && styles.cardPressed,
+                  ]}
+                >
                   <View style={styles.cardHeader}>
                     <Text style={styles.cardTitle}>
-                      {item.countryCode} • {item.visaLabel}
+                      {countryDisplay(item.countryCode)} • {item.visaLabel}
                     </Text>
                     <View style={[styles.badge, { backgroundColor: badge.bg }]}>
                       <Text style={[styles.badgeText, { color: badge.fg }]}>
@@ -211,25 +384,135 @@ export default function Home() {
                       </Text>
                     </View>
                   </View>
+                  {renderOwner(item)}
 
-                  <Text style={styles.cardDetails}>
-                    Entry: {item.entryDate} • Duration: {item.durationDays} days
-                  </Text>
-                  <Text style={styles.cardDetails}>
-                    Expires: {item.expiryISO}
-                  </Text>
+                  {item.multiEntry ? (
+                    <>
+                      <Text style={styles.cardDetails}>
+                        Multi-entry •{" "}
+                        {describeDuration(item.durationDays, item.durationUnit)} per entry •{" "}
+                        {entryCount} entr{entryCount === 1 ? "y" : "ies"}
+                      </Text>
+                      <Text style={styles.cardDetails}>
+                        {item.inCountry
+                          ? `In country since ${currentStay(item)?.entryDate}`
+                          : "Not in country"}{" "}
+                        • Valid until {item.validUntil}
+                      </Text>
+                    </>
+                  ) : (
+                    <Text style={styles.cardDetails}>
+                      Entry: {item.entryDate} • Duration:{" "}
+                      {describeDuration(item.durationDays, item.durationUnit)}
+                    </Text>
+                  )}
+                  {item.schengen ? (
+                    <>
+                      <Text style={styles.cardDetails}>
+                        Schengen: {item.schengen.daysUsed}/{SCHENGEN_MAX_DAYS} days used
+                        in the last 180
+                      </Text>
+                      {item.schengen.nextFalloff && (
+                        <Text style={styles.cardDetails}>
+                          Next day frees up: {item.schengen.nextFalloff}
+                        </Text>
+                      )}
+                      <Text style={styles.cardDetails}>
+                        {describeSchengenLimit(item)}
+                        {item.limitedBy === "visa" && item.extended ? " (extended)" : ""}
+                      </Text>
+                    </>
+                  ) : (
+                    <Text style={styles.cardDetails}>
+                      Expires: {item.expiryISO}
+                      {item.extended ? " (extended)" : ""}
+                    </Text>
+                  )}
+
+                  {item.cap && (
+                    <>
+                      <Text style={styles.cardDetails}>
+                        Days used {capPeriodLabel(item.cap.rule)}: {item.cap.daysUsed}/
+                        {item.cap.rule.maxDays}
+                      </Text>
+                      {item.inCountry &&
+                        item.cap.lastDayWithinCap &&
+                        item.cap.lastDayWithinCap < item.expiryISO && (
+                          <Text style={styles.capWarning}>
+                            Yearly limit reached after {item.cap.lastDayWithinCap}, before
+                            the visa expires
+                          </Text>
+                        )}
+                    </>
+                  )}
+
+                  {item.passportWarning && (
+                    <Text style={styles.capWarning}>
+                      {describePassportWarning(item.passportWarning)}
+                    </Text>
+                  )}
 
                   <Text style={[styles.countdown, { color: accent }]}>
-                    {expired
+                    {overstaying
+                      ? `Overstay: ${-item.daysRemaining} day(s)`
+                      : expired
                       ? `Expired ${Math.abs(item.daysRemaining)} day(s) ago`
-                      : `${item.daysRemaining} day(s) left`}
+                      : item.inCountry && item.daysRemaining === 0
+                      ? `Last day: ${formatTimeLeft(item.endsAt.getTime() - now.getTime())} left`
+                      : item.inCountry
+                      ? `${item.daysRemaining} day(s) left`
+                      : `${item.daysRemaining} day(s) of validity left`}
                   </Text>
+                  {overstaying && (
+                    <Text style={styles.fineText}>
+                      {fine
+                        ? `Estimated fine: ${formatFine(fine.amount, fine.rule.currency)}` +
+                          (fine.capped ? " (maximum)" : "")
+                        : `No fine data for ${item.countryCode}`}
+                    </Text>
+                  )}
 
-                  <Pressable onPress={onDelete} style={styles.deleteButton}>
-                    <Ionicons name="trash-outline" size={16} color="#C0392B" />
-                    <Text style={styles.deleteText}>Delete</Text>
-                  </Pressable>
-                </View>
+                  <View style={styles.actionsRow}>
+                    {item.multiEntry && !expired && (
+                      <Pressable
+                        onPress={() =>
+                          router.push({
+                            pathname: "/log-stay",
+                            params: {
+                              id: item.id,
+                              mode: item.inCountry ? "exit" : "entry",
+                            },
+                          })
+                        }
+                        style={styles.actionButton}
+                      >
+                        <Ionicons
+                          name={item.inCountry ? "log-out-outline" : "log-in-outline"}
+                          size={16}
+                          color="#0F3A5F"
+                        />
+                        <Text style={styles.actionText}>
+                          {item.inCountry ? "Log exit" : "Log entry"}
+                        </Text>
+                      </Pressable>
+                    )}
+
+                    <Pressable
+                      onPress={() =>
+                        router.push({ pathname: "/add", params: { id: item.id } })
+                      }
+                      style={styles.actionButton}
+                    >
+                      <Ionicons name="create-outline" size={16} color="#0F3A5F" />
+                      <Text style={styles.actionText}>Edit</Text>
+                    </Pressable>
+
+                    <Pressable onPress={onDelete} style={styles.actionButton}>
+                      <Ionicons name="trash-outline" size={16} color="#C0392B" />
+                      <Text style={styles.deleteText}>Delete</Text>
+                    </Pressable>
+                  </View>
+                </Pressable>
               );
             }}
           />
@@ -270,6 +553,10 @@ const styles = StyleSheet.create({
     fontWeight: "800",
     color: "#FFFFFF",
   },
+  headerButtons: {
+    flexDirection: "row",
+    gap: 8,
+  },
   settingsButton: {
     padding: 8,
     borderRadius: 12,
@@ -294,6 +581,20 @@ const styles = StyleSheet.create({
     elevation: 4,
     marginBottom: 20,
   },
+  travellerFilter: {
+    marginTop: -8,
+    marginBottom: 14,
+  },
+  ownerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  ownerDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
   addButtonPressed: {
     opacity: 0.9,
     transform: [{ scale: 0.98 }],
@@ -353,6 +654,38 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  cardPressed: {
+    opacity: 0.9,
+  },
+  historyCard: {
+    opacity: 0.85,
+  },
+  residencyBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FFF6DB",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  residencyBannerOver: {
+    backgroundColor: "#FBE3E1",
+  },
+  residencyBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0B2E4A",
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "800",
+    color: "#888",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 10,
+  },
   cardHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -383,15 +716,37 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: "900",
   },
-  deleteButton: {
+  fineText: {
+    marginTop: 4,
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#8A1F1F",
+  },
+  capWarning: {
+    marginTop: 4,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8A5A00",
+  },
+  actionsRow: {
     flexDirection: "row",
     alignItems: "center",
-    gap: 6,
+    gap: 20,
     marginTop: 12,
     paddingTop: 12,
     borderTopWidth: 1,
     borderTopColor: "#F0F0F0",
   },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  actionText: {
+    color: "#0F3A5F",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   deleteText: {
     color: "#C0392B",
     fontSize: 14,
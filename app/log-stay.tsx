@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  Alert,
+  Platform,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  getStays,
+  getVisas,
+  logEntry,
+  logExit,
+  markDeparted,
+  Visa,
+} from "../services/storage";
+import { cancelScheduled, reconcileReminders } from "../services/notifications";
+import { isValidDateYYYYMMDD, localTodayISO } from "../services/dates";
+import { dayCountingFor, lastDayFromPrinted } from "../services/day-counting";
+import { checkPlannedStay, describeCap } from "../services/stay-caps";
+import { countryDisplay } from "../services/countries";
+import { todayIn, visaTimeZone } from "../services/timezones";
+import { DateField, PAST_QUICK_DATES } from "../components/date-field";
+
+export default function LogStay() {
+  const router = useRouter();
+  // "depart" is a final exit: the visa moves to history and stops reminding
+  const { id, mode } = useLocalSearchParams<{ id: string; mode: "entry" | "exit" | "depart" }>();
+  const isEntry = mode === "entry";
+  const isDepart = mode === "depart";
+  const title = isEntry ? "Log Entry" : isDepart ? "Mark Departed" : "Log Exit";
+
+  const [visa, setVisa] = useState<Visa | null>(null);
+  const [date, setDate] = useState(localTodayISO()); // YYYY-MM-DD
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const visas = await getVisas();
+      const v = visas.find((x) => x.id === id) ?? null;
+      setVisa(v);
+
+      // Already outside the country: the departure was the last logged exit
+      const last = v ? getStays(v).at(-1) : undefined;
+      if (isDepart && last?.exitDate) setDate(last.exitDate);
+    })();
+  }, [id, isDepart]);
+
+  async function onSave() {
+    if (!visa) return;
+
+    if (!isValidDateYYYYMMDD(date)) {
+      Alert.alert("Invalid date", "Use format YYYY-MM-DD (example: 2026-01-14).");
+      return;
+    }
+    // Days until then are still being spent in the country
+    const today = todayIn(visaTimeZone(visa));
+    if (isDepart && date > today) {
+      Alert.alert("Invalid date", `Departure can't be after today (${today}).`);
+      return;
+    }
+    if (
+      isEntry &&
+      visa.validUntil &&
+      date > lastDayFromPrinted(visa.validUntil, dayCountingFor(visa)).toISOString().slice(0, 10)
+    ) {
+      Alert.alert("Visa no longer valid", `This visa was valid until ${visa.validUntil}.`);
+      return;
+    }
+
+    if (isEntry) {
+      // The new stay, as logEntry would add it, checked against yearly caps
+      const stay = { entryDate: date };
+      const planned = { ...visa, stays: [...getStays(visa), stay] };
+      const others = (await getVisas()).filter((v) => v.id !== visa.id);
+      const breach = checkPlannedStay(visa.countryCode, [...others, planned], planned, stay);
+      if (breach) {
+        Alert.alert(
+          "Over the yearly limit",
+          `${countryDisplay(visa.countryCode)} allows ${describeCap(breach.rule)}. Staying ` +
+            `until this visa expires would go over on ${breach.firstDayOver}; the last day ` +
+            `within the limit is ${breach.lastDayWithinCap}.`,
+          [
+            { text: "Cancel", style: "cancel" },
+            { text: "Log anyway", onPress: () => save() },
+          ]
+        );
+        return;
+      }
+    }
+
+    await save();
+  }
+
+  async function save() {
+    if (!visa) return;
+    try {
+      setSaving(true);
+
+      if (isEntry) {
+        await logEntry(visa.id, date);
+      } else if (isDepart) {
+        await markDeparted(visa.id, date);
+        if (visa.notificationIds?.length) await cancelScheduled(visa.notificationIds);
+      } else {
+        await logExit(visa.id, date);
+      }
+
+      // Reminders follow the open stay, so they move with every entry and exit
+      await reconcileReminders();
+
+      router.replace("/");
+    } catch (e: any) {
+      Alert.alert("Save failed", e?.message ?? "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const stays = visa ? getStays(visa) : [];
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <LinearGradient colors={["#0B2E4A", "#0F3A5F"]} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+          </Pressable>
+          <Text style={styles.headerTitle}>{title}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+      </LinearGradient>
+
+      {/* Content */}
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {visa ? `${visa.countryCode} • ${visa.visaLabel}` : "Visa not found"}
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>
+                {isEntry ? "Entry Date" : isDepart ? "Departure Date" : "Exit Date"}
+              </Text>
+              <Text style={styles.inputHint}>
+                {Platform.OS === "web" ? "Format: YYYY-MM-DD" : "Tap to pick a date"}
+              </Text>
+              <DateField value={date} onChange={setDate} quickDates={PAST_QUICK_DATES} />
+            </View>
+
+            {isDepart && (
+              <Text style={styles.departNote}>
+                Closes the stay and moves this visa to History. Its reminders are cancelled.
+              </Text>
+            )}
+          </View>
+
+          <Pressable
+            onPress={onSave}
+            disabled={saving || !visa}
+            style={({ pressed }) => [
+              styles.saveButton,
+              (saving || !visa) && styles.saveButtonDisabled,
+              pressed && styles.saveButtonPressed,
+            ]}
+          >
+            <Ionicons
+              name={saving ? "hourglass-outline" : "checkmark-circle-outline"}
+              size={20}
+              color="#FFFFFF"
+            />
+            <Text style={styles.saveButtonText}>
+              {saving ? "Saving..." : title}
+            </Text>
+          </Pressable>
+
+          {stays.length > 0 && (
+            <View style={[styles.card, styles.historyCard]}>
+              <Text style={styles.cardTitle}>Stay history</Text>
+              {stays.map((s, i) => (
+                <Text key={`${s.entryDate}_${i}`} style={styles.historyRow}>
+                  {s.entryDate} → {s.exitDate ?? "present"}
+                </Text>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F4F6F8",
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0B2E4A",
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 4,
+  },
+  inputLabel: {
+    fontWeight: "700",
+    fontSize: 15,
+    color: "#0B2E4A",
+    marginBottom: 4,
+  },
+  inputHint: {
+    fontSize: 13,
+    color: "#888",
+    marginBottom: 10,
+  },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 16,
+    borderRadius: 14,
+    shadowColor: "#0B2E4A",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  saveButtonPressed: {
+    opacity: 0.9,
+    transform: [{ scale: 0.98 }],
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 17,
+    fontWeight: "700",
+  },
+  departNote: {
+    marginTop: 12,
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+  },
+  historyCard: {
+    marginTop: 20,
+  },
+  historyRow: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 4,
+  },
+});
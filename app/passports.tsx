@@ -0,0 +1,449 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+
+import { usePassports } from "../hooks/use-passports";
+import { useVisas } from "../hooks/use-visas";
+import { useProfiles } from "../hooks/use-profiles";
+import {
+  deletePassport,
+  DEFAULT_VALIDITY_MONTHS,
+  describePassport,
+  Passport,
+  savePassport,
+  updatePassport,
+} from "../services/passports";
+import { DEFAULT_PROFILE_ID, findProfile, profileIdOf } from "../services/profiles";
+import { PASSPORT_REMINDER_MONTHS, reconcileReminders } from "../services/notifications";
+import { validatePassportInput } from "../services/validation";
+import { addMonthsUTC, localTodayISO } from "../services/dates";
+import { CountryPicker } from "../components/country-picker";
+import { DateField } from "../components/date-field";
+import { ProfileFilter } from "../components/profile-filter";
+
+export default function Passports() {
+  const router = useRouter();
+  const passports = usePassports();
+  const visas = useVisas();
+  const profiles = useProfiles();
+
+  // The passport being edited, "new" for the add form, or null when closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [issuingCountry, setIssuingCountry] = useState("");
+  const [number, setNumber] = useState("");
+  const [issueDate, setIssueDate] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [saving, setSaving] = useState(false);
+
+  const today = localTodayISO();
+  const marginStart = addMonthsUTC(today, DEFAULT_VALIDITY_MONTHS).toISOString().slice(0, 10);
+
+  function openForm(p: Passport | null) {
+    setEditing(p?.id ?? "new");
+    setIssuingCountry(p?.issuingCountry ?? "");
+    setNumber(p?.number ?? "");
+    setIssueDate(p?.issueDate ?? "");
+    setExpiryDate(p?.expiryDate ?? "");
+    setProfileId(p ? profileIdOf(p) : DEFAULT_PROFILE_ID);
+  }
+
+  /* ---------------- Actions ---------------- */
+
+  async function onSave() {
+    const checked = validatePassportInput({ issuingCountry, number, issueDate, expiryDate });
+    if (!checked.ok) {
+      Alert.alert(checked.error.title, checked.error.message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const existing = passports.find((p) => p.id === editing);
+      // The default traveller is stored as no profileId at all
+      const owner = profileId === DEFAULT_PROFILE_ID ? undefined : profileId;
+      if (existing) {
+        await updatePassport({ ...existing, ...checked.value, profileId: owner });
+      } else {
+        await savePassport({
+          ...checked.value,
+          profileId: owner,
+          id: `passport_${Date.now()}`,
+          createdAt: new Date().toISOString(),
+        });
+      }
+      if (Platform.OS !== "web") await reconcileReminders();
+      setEditing(null);
+    } catch (e: any) {
+      Alert.alert("Save failed", e?.message ?? "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function onDelete(p: Passport) {
+    const linked = visas.filter((v) => v.passportId === p.id).length;
+    Alert.alert(
+      "Delete passport?",
+      `This removes ${describePassport(p)}.` +
+        (linked ? ` ${linked} visa(s) in it will no longer be linked to a passport.` : ""),
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deletePassport(p.id);
+              if (Platform.OS !== "web") await reconcileReminders();
+            } catch (e: any) {
+              Alert.alert("Delete failed", e?.message ?? "Unknown error");
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  /* ---------------- UI ---------------- */
+
+  function renderForm() {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{editing === "new" ? "Add Passport" : "Edit Passport"}</Text>
+
+        {profiles.length > 1 && (
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Traveller</Text>
+            <ProfileFilter
+              profiles={profiles}
+              value={profileId}
+              onChange={(id) => setProfileId(id ?? DEFAULT_PROFILE_ID)}
+            />
+          </View>
+        )}
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Issuing Country</Text>
+          <CountryPicker value={issuingCountry} onChange={setIssuingCountry} />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Passport Number</Text>
+          <Text style={styles.inputHint}>Only the last four characters are shown elsewhere</Text>
+          <TextInput
+            value={number}
+            onChangeText={setNumber}
+            placeholder="X1234567"
+            placeholderTextColor="#999"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            style={styles.input}
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Issue Date</Text>
+          <DateField value={issueDate} onChange={setIssueDate} placeholder="2021-03-15" />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Expiry Date</Text>
+          <DateField value={expiryDate} onChange={setExpiryDate} placeholder="2031-03-14" />
+        </View>
+
+        <View style={styles.buttonRow}>
+          <Pressable
+            onPress={() => setEditing(null)}
+            style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </Pressable>
+          <Pressable
+            onPress={onSave}
+            disabled={saving}
+            style={({ pressed }) => [
+              styles.saveButton,
+              saving && styles.saveButtonDisabled,
+              pressed && styles.pressed,
+            ]}
+          >
+            <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save"}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  function renderPassport(p: Passport) {
+    if (editing === p.id) return <View key={p.id}>{renderForm()}</View>;
+
+    const linked = visas.filter((v) => v.passportId === p.id).length;
+    const expired = p.expiryDate < today;
+    const withinMargin = !expired && p.expiryDate < marginStart;
+
+    return (
+      <View key={p.id} style={styles.card}>
+        <Text style={styles.cardTitle}>{describePassport(p)}</Text>
+        {profiles.length > 1 && (
+          <Text style={styles.detailText}>{findProfile(profiles, p.profileId).name}</Text>
+        )}
+        <Text style={styles.detailText}>
+          Issued {p.issueDate} • Expires {p.expiryDate}
+        </Text>
+        <Text style={styles.detailText}>
+          {linked ? `${linked} visa(s) in this passport` : "No visas linked"}
+        </Text>
+        {expired ? (
+          <Text style={styles.expiredText}>Expired</Text>
+        ) : withinMargin ? (
+          <Text style={styles.warningText}>
+            Less than {DEFAULT_VALIDITY_MONTHS} months left: many countries will refuse entry
+          </Text>
+        ) : null}
+
+        <View style={styles.actionsRow}>
+          <Pressable onPress={() => openForm(p)} style={styles.linkButton}>
+            <Ionicons name="create-outline" size={16} color="#0F3A5F" />
+            <Text style={styles.linkText}>Edit</Text>
+          </Pressable>
+          <Pressable onPress={() => onDelete(p)} style={styles.linkButton}>
+            <Ionicons name="trash-outline" size={16} color="#C0392B" />
+            <Text style={[styles.linkText, styles.deleteText]}>Delete</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <LinearGradient colors={["#0B2E4A", "#0F3A5F"]} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Passports</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+      </LinearGradient>
+
+      {/* Content */}
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.sectionDescription}>
+            Link each visa to the passport it&apos;s in to be warned when a stay runs too
+            close to the passport&apos;s expiry. Reminders come{" "}
+            {PASSPORT_REMINDER_MONTHS.join(", ")} month(s) before a passport expires.
+          </Text>
+
+          {passports.length === 0 && editing !== "new" && (
+            <Text style={styles.emptyText}>No passports yet.</Text>
+          )}
+          {passports.map(renderPassport)}
+
+          {editing === "new" ? (
+            renderForm()
+          ) : (
+            <Pressable
+              onPress={() => openForm(null)}
+              style={({ pressed }) => [styles.addButton, pressed && styles.pressed]}
+            >
+              <Ionicons name="add-circle-outline" size={22} color="#FFFFFF" />
+              <Text style={styles.addButtonText}>Add Passport</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F4F6F8",
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  sectionDescription: {
+    color: "#666",
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 14,
+    gap: 6,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontWeight: "700",
+    fontSize: 16,
+    color: "#0B2E4A",
+  },
+  detailText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  expiredText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#8A1F1F",
+  },
+  warningText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8A5A00",
+  },
+  inputGroup: {
+    marginTop: 10,
+    gap: 6,
+  },
+  inputLabel: {
+    fontWeight: "600",
+    color: "#444",
+    fontSize: 14,
+  },
+  inputHint: {
+    fontSize: 12,
+    color: "#888",
+  },
+  input: {
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "500",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 14,
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#0F3A5F",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    gap: 20,
+    marginTop: 6,
+  },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  linkText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  deleteText: {
+    color: "#C0392B",
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 16,
+    borderRadius: 14,
+  },
+  addButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 16,
+  },
+  pressed: {
+    opacity: 0.9,
+  },
+  emptyText: {
+    color: "#888",
+    fontSize: 14,
+    textAlign: "center",
+    marginVertical: 20,
+  },
+});
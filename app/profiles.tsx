@@ -0,0 +1,451 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+
+import { useProfiles } from "../hooks/use-profiles";
+import { useVisas } from "../hooks/use-visas";
+import { usePassports } from "../hooks/use-passports";
+import {
+  DEFAULT_PROFILE_ID,
+  deleteProfile,
+  MAX_PROFILE_NAME,
+  Profile,
+  PROFILE_COLORS,
+  profileIdOf,
+  saveProfile,
+  updateProfile,
+} from "../services/profiles";
+import { reconcileReminders } from "../services/notifications";
+import { validateProfileInput } from "../services/validation";
+import { countryDisplay } from "../services/countries";
+import { CountryPicker } from "../components/country-picker";
+
+export default function Profiles() {
+  const router = useRouter();
+  const profiles = useProfiles();
+  const visas = useVisas();
+  const passports = usePassports();
+
+  // The profile being edited, "new" for the add form, or null when closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [nationality, setNationality] = useState("");
+  const [color, setColor] = useState(PROFILE_COLORS[0]);
+  const [saving, setSaving] = useState(false);
+
+  function openForm(p: Profile | null) {
+    setEditing(p?.id ?? "new");
+    setName(p?.name ?? "");
+    setNationality(p?.nationality ?? "");
+    // A new traveller gets the first colour nobody uses yet
+    setColor(
+      p?.color ??
+        PROFILE_COLORS.find((c) => !profiles.some((x) => x.color === c)) ??
+        PROFILE_COLORS[0]
+    );
+  }
+
+  /* ---------------- Actions ---------------- */
+
+  async function onSave() {
+    const checked = validateProfileInput({ name, nationality, color });
+    if (!checked.ok) {
+      Alert.alert(checked.error.title, checked.error.message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const existing = profiles.find((p) => p.id === editing);
+      if (existing) {
+        // Spread first so a cleared nationality goes away
+        const { nationality: _old, ...rest } = existing;
+        await updateProfile({ ...rest, ...checked.value });
+      } else {
+        await saveProfile({
+          ...checked.value,
+          id: `profile_${Date.now()}`,
+          createdAt: new Date().toISOString(),
+        });
+      }
+      // Reminder text names the traveller once there is more than one
+      if (Platform.OS !== "web") await reconcileReminders();
+      setEditing(null);
+    } catch (e: any) {
+      Alert.alert("Save failed", e?.message ?? "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function onDelete(p: Profile) {
+    Alert.alert("Delete traveller?", `This removes ${p.name} from this device.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteProfile(p.id);
+            if (Platform.OS !== "web") await reconcileReminders();
+          } catch (e: any) {
+            Alert.alert("Delete failed", e?.message ?? "Unknown error");
+          }
+        },
+      },
+    ]);
+  }
+
+  /* ---------------- UI ---------------- */
+
+  function renderForm() {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>
+          {editing === "new" ? "Add Traveller" : "Edit Traveller"}
+        </Text>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Name</Text>
+          <Text style={styles.inputHint}>Shown on visa cards and in reminders</Text>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="Maria"
+            placeholderTextColor="#999"
+            maxLength={MAX_PROFILE_NAME}
+            style={styles.input}
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Nationality</Text>
+          <CountryPicker value={nationality} onChange={setNationality} />
+          {nationality !== "" && (
+            <Pressable onPress={() => setNationality("")} style={styles.linkButton}>
+              <Text style={styles.linkText}>Clear</Text>
+            </Pressable>
+          )}
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Colour</Text>
+          <View style={styles.swatchRow}>
+            {PROFILE_COLORS.map((c) => (
+              <Pressable
+                key={c}
+                onPress={() => setColor(c)}
+                style={[
+                  styles.swatch,
+                  { backgroundColor: c },
+                  color === c && styles.swatchSelected,
+                ]}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.buttonRow}>
+          <Pressable
+            onPress={() => setEditing(null)}
+            style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </Pressable>
+          <Pressable
+            onPress={onSave}
+            disabled={saving}
+            style={({ pressed }) => [
+              styles.saveButton,
+              saving && styles.saveButtonDisabled,
+              pressed && styles.pressed,
+            ]}
+          >
+            <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save"}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  function renderProfile(p: Profile) {
+    if (editing === p.id) return <View key={p.id}>{renderForm()}</View>;
+
+    const visaCount = visas.filter((v) => profileIdOf(v) === p.id).length;
+    const passportCount = passports.filter((x) => profileIdOf(x) === p.id).length;
+
+    return (
+      <View key={p.id} style={styles.card}>
+        <View style={styles.titleRow}>
+          <View style={[styles.dot, { backgroundColor: p.color }]} />
+          <Text style={styles.cardTitle}>{p.name}</Text>
+        </View>
+        <Text style={styles.detailText}>
+          {p.nationality ? countryDisplay(p.nationality) : "Nationality not set"}
+        </Text>
+        <Text style={styles.detailText}>
+          {visaCount} visa(s) • {passportCount} passport(s)
+        </Text>
+
+        <View style={styles.actionsRow}>
+          <Pressable onPress={() => openForm(p)} style={styles.linkButton}>
+            <Ionicons name="create-outline" size={16} color="#0F3A5F" />
+            <Text style={styles.linkText}>Edit</Text>
+          </Pressable>
+          {p.id !== DEFAULT_PROFILE_ID && (
+            <Pressable onPress={() => onDelete(p)} style={styles.linkButton}>
+              <Ionicons name="trash-outline" size={16} color="#C0392B" />
+              <Text style={[styles.linkText, styles.deleteText]}>Delete</Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <LinearGradient colors={["#0B2E4A", "#0F3A5F"]} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Travellers</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+      </LinearGradient>
+
+      {/* Content */}
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.sectionDescription}>
+            Track visas and passports for family or team members on this phone. Days in a
+            country, Schengen days and tax residency are counted per traveller.
+          </Text>
+
+          {profiles.map(renderProfile)}
+
+          {editing === "new" ? (
+            renderForm()
+          ) : (
+            <Pressable
+              onPress={() => openForm(null)}
+              style={({ pressed }) => [styles.addButton, pressed && styles.pressed]}
+            >
+              <Ionicons name="person-add-outline" size={22} color="#FFFFFF" />
+              <Text style={styles.addButtonText}>Add Traveller</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F4F6F8",
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  sectionDescription: {
+    color: "#666",
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 14,
+    gap: 6,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontWeight: "700",
+    fontSize: 16,
+    color: "#0B2E4A",
+  },
+  detailText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  expiredText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#8A1F1F",
+  },
+  warningText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8A5A00",
+  },
+  inputGroup: {
+    marginTop: 10,
+    gap: 6,
+  },
+  inputLabel: {
+    fontWeight: "600",
+    color: "#444",
+    fontSize: 14,
+  },
+  inputHint: {
+    fontSize: 12,
+    color: "#888",
+  },
+  input: {
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "500",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 14,
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#0F3A5F",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    gap: 20,
+    marginTop: 6,
+  },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  linkText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  deleteText: {
+    color: "#C0392B",
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 16,
+    borderRadius: 14,
+  },
+  addButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 16,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  swatchRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: "transparent",
+  },
+  swatchSelected: {
+    borderColor: "#0B2E4A",
+  },
+  pressed: {
+    opacity: 0.9,
+  },
+});
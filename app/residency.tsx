@@ -0,0 +1,493 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  Switch,
+  TextInput,
+  Alert,
+  StyleSheet,
+  ScrollView,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+
+import { useVisas } from "../hooks/use-visas";
+import { useProfiles } from "../hooks/use-profiles";
+import {
+  getResidencySettings,
+  ResidencySettings,
+  setResidencyReminders,
+  setTaxYearStart,
+} from "../services/settings";
+import { reconcileReminders } from "../services/notifications";
+import {
+  CountryResidency,
+  RESIDENCY_THRESHOLD_DAYS,
+  residencyOverview,
+  TAX_YEAR_STARTS,
+  taxYearLabel,
+  taxYearStartFor,
+} from "../services/residency";
+import { countryDisplay } from "../services/countries";
+import { isValidMonthDay } from "../services/dates";
+import { DEFAULT_PROFILE_ID, sameTraveller } from "../services/profiles";
+import { ProfileFilter } from "../components/profile-filter";
+
+function yearHeading(offset: number) {
+  if (offset === 0) return "This tax year";
+  if (offset === -1) return "Last tax year";
+  return `${-offset} tax years ago`;
+}
+
+export default function Residency() {
+  const router = useRouter();
+  const visas = useVisas();
+  const profiles = useProfiles();
+  // Residency is personal, so one traveller at a time
+  const { profile } = useLocalSearchParams<{ profile?: string }>();
+  const [picked, setProfileId] = useState(profile || DEFAULT_PROFILE_ID);
+  // A traveller deleted since they were picked falls back to the default one
+  const profileId = profiles.some((p) => p.id === picked) ? picked : DEFAULT_PROFILE_ID;
+  const [settings, setSettings] = useState<ResidencySettings | null>(null);
+  const [yearOffset, setYearOffset] = useState(0);
+
+  // Country whose tax-year start is being edited, and the text typed so far
+  const [editing, setEditing] = useState<string | null>(null);
+  const [startStr, setStartStr] = useState("");
+
+  async function load() {
+    setSettings(await getResidencySettings());
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const starts = settings?.taxYearStarts;
+  const rows = useMemo(
+    () => residencyOverview(sameTraveller(visas, { profileId }), starts, yearOffset),
+    [visas, profileId, starts, yearOffset]
+  );
+
+  /* ---------------- Actions ---------------- */
+
+  async function onToggleReminders(next: boolean) {
+    setSettings((prev) => (prev ? { ...prev, remindersEnabled: next } : prev));
+    try {
+      await setResidencyReminders(next);
+      await reconcileReminders();
+    } catch (e: any) {
+      Alert.alert("Could not save", e?.message ?? "Unknown error");
+      await load();
+    }
+  }
+
+  function startEditing(countryCode: string) {
+    setEditing(countryCode);
+    setStartStr(taxYearStartFor(countryCode, starts));
+  }
+
+  async function saveStart(countryCode: string, monthDay: string | null) {
+    if (monthDay !== null && !isValidMonthDay(monthDay)) {
+      Alert.alert("Invalid date", "Use MM-DD, e.g. 04-06 for 6 April.");
+      return;
+    }
+    try {
+      // The country's usual start needs no override
+      const usual = taxYearStartFor(countryCode);
+      await setTaxYearStart(countryCode, monthDay === usual ? null : monthDay);
+      await load();
+      setEditing(null);
+      await reconcileReminders();
+    } catch (e: any) {
+      Alert.alert("Could not save", e?.message ?? "Unknown error");
+    }
+  }
+
+  /* ---------------- UI ---------------- */
+
+  function renderCountry(r: CountryResidency) {
+    const pct = Math.min(1, r.daysPresent / RESIDENCY_THRESHOLD_DAYS);
+    const accent =
+      r.level === "reached" ? "#C0392B" : r.level === "near" ? "#F5B301" : "#2ECC71";
+    const custom = starts?.[r.countryCode] !== undefined;
+
+    return (
+      <View key={r.countryCode} style={styles.card}>
+        <View style={styles.countryHeader}>
+          <Text style={styles.cardTitle}>{countryDisplay(r.countryCode)}</Text>
+          {r.inCountry && yearOffset === 0 && (
+            <View style={styles.hereBadge}>
+              <Text style={styles.hereText}>Here now</Text>
+            </View>
+          )}
+        </View>
+
+        <Text style={styles.daysLine}>
+          <Text style={[styles.daysValue, { color: accent }]}>{r.daysPresent}</Text>
+          {` / ${RESIDENCY_THRESHOLD_DAYS} days`}
+        </Text>
+        <View style={styles.barTrack}>
+          <View style={[styles.barFill, { width: `${pct * 100}%`, backgroundColor: accent }]} />
+        </View>
+
+        {r.level === "reached" ? (
+          <Text style={styles.reachedText}>
+            Over {RESIDENCY_THRESHOLD_DAYS} days: you may be tax resident here for this tax year.
+          </Text>
+        ) : r.level === "near" ? (
+          <Text style={styles.nearText}>
+            {r.daysToThreshold} day(s) left before {RESIDENCY_THRESHOLD_DAYS}.
+          </Text>
+        ) : null}
+        {r.projectedDate && (
+          <Text style={styles.detailText}>
+            At this pace you will reach {RESIDENCY_THRESHOLD_DAYS} days on {r.projectedDate}.
+          </Text>
+        )}
+
+        <Text style={styles.detailText}>
+          Tax year {taxYearLabel(r.taxYear)}: {r.taxYear.start} to {r.taxYear.end}
+          {custom ? " (your setting)" : ""}
+        </Text>
+
+        {editing === r.countryCode ? (
+          <View style={styles.editBox}>
+            <Text style={styles.inputLabel}>Tax year starts on (MM-DD)</Text>
+            <TextInput
+              value={startStr}
+              onChangeText={setStartStr}
+              placeholder={TAX_YEAR_STARTS[r.countryCode] ?? "01-01"}
+              placeholderTextColor="#999"
+              keyboardType="numbers-and-punctuation"
+              style={styles.input}
+            />
+            <View style={styles.buttonRow}>
+              <Pressable
+                onPress={() => setEditing(null)}
+                style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </Pressable>
+              {custom && (
+                <Pressable
+                  onPress={() => saveStart(r.countryCode, null)}
+                  style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                >
+                  <Text style={styles.secondaryButtonText}>Reset</Text>
+                </Pressable>
+              )}
+              <Pressable
+                onPress={() => saveStart(r.countryCode, startStr.trim())}
+                style={({ pressed }) => [styles.saveButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </View>
+        ) : (
+          <Pressable onPress={() => startEditing(r.countryCode)} style={styles.linkButton}>
+            <Ionicons name="calendar-outline" size={16} color="#0F3A5F" />
+            <Text style={styles.linkText}>Change tax year start</Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <LinearGradient colors={["#0B2E4A", "#0F3A5F"]} style={styles.header}>
+        <View style={styles.headerContent}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+          </Pressable>
+          <Text style={styles.headerTitle}>Tax Residency</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+      </LinearGradient>
+
+      {/* Content */}
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.sectionDescription}>
+          Days of physical presence per country and tax year, from the stays you have
+          logged. Many countries treat {RESIDENCY_THRESHOLD_DAYS} days as the point where
+          you become tax resident; check the rules that apply to you.
+        </Text>
+
+        {/* Year stepper */}
+        {profiles.length > 1 && (
+          <View style={styles.travellerFilter}>
+            <ProfileFilter
+              profiles={profiles}
+              value={profileId}
+              onChange={(id) => setProfileId(id ?? DEFAULT_PROFILE_ID)}
+            />
+          </View>
+        )}
+
+        <View style={[styles.card, styles.yearRow]}>
+          <Pressable onPress={() => setYearOffset(yearOffset - 1)} style={styles.stepButton}>
+            <Ionicons name="chevron-back" size={20} color="#0F3A5F" />
+          </Pressable>
+          <Text style={styles.cardTitle}>{yearHeading(yearOffset)}</Text>
+          <Pressable
+            onPress={() => setYearOffset(yearOffset + 1)}
+            disabled={yearOffset === 0}
+            style={[styles.stepButton, yearOffset === 0 && styles.stepButtonDisabled]}
+          >
+            <Ionicons name="chevron-forward" size={20} color="#0F3A5F" />
+          </Pressable>
+        </View>
+
+        {rows.length === 0 ? (
+          <Text style={styles.emptyText}>No days recorded in any country for this tax year.</Text>
+        ) : (
+          rows.map(renderCountry)
+        )}
+
+        {/* Reminders */}
+        <View style={styles.card}>
+          <View style={styles.cardRow}>
+            <View style={styles.cardTextContainer}>
+              <View style={styles.cardTitleRow}>
+                <Ionicons name="notifications-outline" size={20} color="#0F3A5F" />
+                <Text style={styles.cardTitle}>Residency reminders</Text>
+              </View>
+              <Text style={styles.cardDescription}>
+                Remind me ahead of reaching {RESIDENCY_THRESHOLD_DAYS} days in a country at
+                my current pace, on my usual reminder days and time.
+              </Text>
+            </View>
+            <Switch
+              value={settings?.remindersEnabled ?? true}
+              onValueChange={onToggleReminders}
+              disabled={!settings}
+              trackColor={{ false: "#E0E0E0", true: "#0F3A5F" }}
+              thumbColor={settings?.remindersEnabled ? "#FFFFFF" : "#F4F4F4"}
+            />
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F4F6F8",
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  sectionDescription: {
+    color: "#666",
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 14,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTextContainer: {
+    flex: 1,
+    paddingRight: 12,
+    gap: 6,
+  },
+  cardTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  cardTitle: {
+    fontWeight: "700",
+    fontSize: 16,
+    color: "#0B2E4A",
+  },
+  cardDescription: {
+    color: "#666",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  travellerFilter: {
+    marginBottom: 14,
+  },
+  yearRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+  stepButton: {
+    padding: 8,
+    borderRadius: 12,
+    backgroundColor: "#E8EEF4",
+  },
+  stepButtonDisabled: {
+    opacity: 0.3,
+  },
+  countryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  hereBadge: {
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  hereText: {
+    color: "#0F3A5F",
+    fontWeight: "700",
+    fontSize: 12,
+  },
+  daysLine: {
+    marginTop: 10,
+    fontSize: 15,
+    color: "#666",
+    fontWeight: "600",
+  },
+  daysValue: {
+    fontSize: 28,
+    fontWeight: "800",
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#E8EEF4",
+    marginTop: 8,
+    marginBottom: 10,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  reachedText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#8A1F1F",
+    marginBottom: 4,
+  },
+  nearText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8A5A00",
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 4,
+  },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 8,
+  },
+  linkText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  editBox: {
+    marginTop: 10,
+    gap: 8,
+  },
+  inputLabel: {
+    fontWeight: "600",
+    color: "#444",
+    fontSize: 14,
+  },
+  input: {
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "600",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 4,
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#0F3A5F",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+  pressed: {
+    opacity: 0.9,
+  },
+  emptyText: {
+    color: "#888",
+    fontSize: 14,
+    textAlign: "center",
+    marginVertical: 20,
+  },
+});
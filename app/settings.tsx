@@ -9,6 +9,7 @@ import {
   Alert,
   ActivityIndicator,
   StyleSheet,
+  ScrollView,
 } from "react-native";
 import { useRouter } from "expo-router";
 import * as Notifications from "expo-notifications";
@@ -17,29 +18,72 @@ import { Ionicons } from "@expo/vector-icons";
 
 import {
   getReminderSettings,
+  getResidencySettings,
   setReminderEnabled,
   setReminderTime,
+  setReminderOffsets,
   ReminderSettings,
+  ResidencySettings,
+  MIN_OFFSET_DAYS,
+  MAX_OFFSET_DAYS,
 } from "../services/settings";
+import { desiredReminders, reconcileReminders } from "../services/notifications";
+import { useVisas } from "../hooks/use-visas";
+import { usePassports } from "../hooks/use-passports";
+import { useProfiles } from "../hooks/use-profiles";
+import {
+  Backup,
+  BackupFile,
+  buildBackupFile,
+  decryptBackup,
+  pickBackup,
+  restoreBackup,
+  RestoreMode,
+  shareBackupFile,
+} from "../services/backup";
+import { PassphrasePrompt } from "../components/passphrase-prompt";
+import { exportCalendar } from "../services/ics";
+import { exportVisasCsv } from "../services/csv";
 
 function pad2(n: number) {
   return String(n).padStart(2, "0");
 }
 
+// Local device date and time, e.g. 2026-03-01 09:00
+function formatLocal(d: Date) {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())} ${pad2(
+    d.getHours()
+  )}:${pad2(d.getMinutes())}`;
+}
+
 export default function Settings() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [residency, setResidency] = useState<ResidencySettings | null>(null);
 
   // Keep as strings so typing feels normal
   const [hourStr, setHourStr] = useState("09");
   const [minuteStr, setMinuteStr] = useState("00");
+  const [offsetStr, setOffsetStr] = useState("");
+
+  // Passphrase prompt for encrypted backups: choosing one on export, or
+  // unlocking a picked file on restore
+  const [passPrompt, setPassPrompt] = useState<
+    { kind: "export" } | { kind: "restore"; envelope: unknown } | null
+  >(null);
+  const [passBusy, setPassBusy] = useState(false);
+  const [passError, setPassError] = useState<string | null>(null);
+  const visas = useVisas();
+  const passports = usePassports();
+  const profiles = useProfiles();
 
   async function load() {
     setLoading(true);
     try {
-      const s = await getReminderSettings();
+      const [s, r] = await Promise.all([getReminderSettings(), getResidencySettings()]);
       setSettings(s);
+      setResidency(r);
       setHourStr(pad2(s.hour));
       setMinuteStr(pad2(s.minute));
     } finally {
@@ -77,6 +121,9 @@ export default function Settings() {
         );
       }
     }
+
+    // Turning off cancels everything pending; turning on schedules it again
+    await reconcileReminders();
   }
 
   async function onSaveTime() {
@@ -93,11 +140,164 @@ export default function Settings() {
     }
 
     await setReminderTime(h, m);
+    await reconcileReminders();
     setSettings((prev) => (prev ? { ...prev, hour: h, minute: m } : prev));
     Alert.alert("Saved", `Default reminder time set to ${pad2(h)}:${pad2(m)}.`);
   }
 
+  async function saveOffsets(next: number[]) {
+    const sorted = [...new Set(next)].sort((a, b) => b - a);
+    await setReminderOffsets(sorted);
+    setSettings((prev) => (prev ? { ...prev, offsetsDays: sorted } : prev));
+    await reconcileReminders();
+  }
+
+  async function onAddOffset() {
+    const n = Number(offsetStr.trim());
+
+    if (!offsetStr.trim() || !Number.isInteger(n) || n < MIN_OFFSET_DAYS || n > MAX_OFFSET_DAYS) {
+      Alert.alert(
+        "Invalid reminder day",
+        `Use a whole number of days from ${MIN_OFFSET_DAYS} to ${MAX_OFFSET_DAYS} (0 = expiry day).`
+      );
+      return;
+    }
+    if (settings?.offsetsDays.includes(n)) {
+      Alert.alert("Already added", `There is already a reminder ${n} day(s) before expiry.`);
+      return;
+    }
+
+    await saveOffsets([...(settings?.offsetsDays ?? []), n]);
+    setOffsetStr("");
+  }
+
+  async function onRemoveOffset(n: number) {
+    await saveOffsets((settings?.offsetsDays ?? []).filter((x) => x !== n));
+  }
+
+  async function share(file: BackupFile) {
+    try {
+      await shareBackupFile(file);
+    } catch (e: any) {
+      Alert.alert("Export failed", e?.message ?? "Unknown error");
+    }
+  }
+
+  async function runPlainExport() {
+    try {
+      await share(await buildBackupFile());
+    } catch (e: any) {
+      Alert.alert("Export failed", e?.message ?? "Unknown error");
+    }
+  }
+
+  function onExportBackup() {
+    Alert.alert(
+      "Export backup",
+      "An encrypted backup needs your passphrase to restore, so it is safe to keep in cloud drives or email.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Plain JSON", onPress: runPlainExport },
+        { text: "Encrypted", onPress: () => setPassPrompt({ kind: "export" }) },
+      ]
+    );
+  }
+
+  async function onSubmitPassphrase(passphrase: string) {
+    if (!passPrompt) return;
+    setPassBusy(true);
+    setPassError(null);
+    try {
+      if (passPrompt.kind === "export") {
+        const file = await buildBackupFile(passphrase);
+        setPassPrompt(null);
+        share(file);
+      } else {
+        const backup = await decryptBackup(passPrompt.envelope, passphrase);
+        setPassPrompt(null);
+        confirmRestore(backup);
+      }
+    } catch (e: any) {
+      // Stay open so a mistyped passphrase can be retried
+      setPassError(e?.message ?? "Unknown error");
+    } finally {
+      setPassBusy(false);
+    }
+  }
+
+  function closePassPrompt() {
+    setPassPrompt(null);
+    setPassError(null);
+  }
+
+  async function onRestoreBackup() {
+    try {
+      const picked = await pickBackup();
+      if (!picked) return;
+      if (picked.encrypted) {
+        setPassPrompt({ kind: "restore", envelope: picked.envelope });
+      } else {
+        confirmRestore(picked.backup);
+      }
+    } catch (e: any) {
+      Alert.alert("Can't restore this file", e?.message ?? "Unknown error");
+    }
+  }
+
+  async function onExportCalendar() {
+    try {
+      await exportCalendar();
+    } catch (e: any) {
+      Alert.alert("Export failed", e?.message ?? "Unknown error");
+    }
+  }
+
+  async function onExportCsv() {
+    try {
+      await exportVisasCsv();
+    } catch (e: any) {
+      Alert.alert("Export failed", e?.message ?? "Unknown error");
+    }
+  }
+
+  function confirmRestore(backup: Backup) {
+    const run = async (mode: RestoreMode) => {
+      try {
+        const { added, skipped } = await restoreBackup(backup, mode);
+        await load();
+        Alert.alert(
+          "Backup restored",
+          mode === "merge"
+            ? `Added ${added} visa(s). ${skipped} already on this device were kept as they are.`
+            : `Restored ${added} visa(s) and your reminder settings.`
+        );
+      } catch (e: any) {
+        Alert.alert("Restore failed", e?.message ?? "Unknown error");
+      }
+    };
+
+    Alert.alert(
+      "Restore backup?",
+      `${backup.visas.length} visa(s)${
+        backup.exportedAt ? ` from ${backup.exportedAt.slice(0, 10)}` : ""
+      }. Merge adds visas missing here; Replace deletes this device's visas and settings first.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => run("merge") },
+        { text: "Replace", style: "destructive", onPress: () => run("replace") },
+      ]
+    );
+  }
+
   const enabled = settings?.enabled ?? true;
+  const offsets = settings?.offsetsDays ?? [];
+  const preview = settings
+    ? desiredReminders(visas, settings, {
+        residency: residency ?? undefined,
+        passports,
+        profiles,
+      })
+    : [];
   const timeLabel = settings
     ? `${pad2(settings.hour)}:${pad2(settings.minute)}`
     : "--:--";
@@ -116,7 +316,7 @@ export default function Settings() {
       </LinearGradient>
 
       {/* Content */}
-      <View style={styles.content}>
+      <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
         <Text style={styles.sectionDescription}>
           Manage reminders and app behavior. Your data is stored locally on this
           device.
@@ -229,13 +429,219 @@ export default function Settings() {
           )}
         </View>
 
+        {/* Reminder days */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Ionicons name="calendar-outline" size={20} color="#0F3A5F" />
+            <Text style={styles.cardTitle}>Reminder days</Text>
+          </View>
+          <Text style={styles.cardDescription}>
+            Days before expiry to send a reminder. 0 means on the expiry day.
+          </Text>
+
+          <View style={styles.chipRow}>
+            {offsets.length === 0 ? (
+              <Text style={styles.emptyText}>No reminder days set.</Text>
+            ) : (
+              offsets.map((n) => (
+                <Pressable
+                  key={n}
+                  onPress={() => onRemoveOffset(n)}
+                  disabled={loading}
+                  style={styles.chip}
+                >
+                  <Text style={styles.chipText}>{n === 0 ? "Expiry day" : `${n}d`}</Text>
+                  <Ionicons name="close" size={14} color="#0F3A5F" />
+                </Pressable>
+              ))
+            )}
+          </View>
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>
+                Days before ({MIN_OFFSET_DAYS}–{MAX_OFFSET_DAYS})
+              </Text>
+              <TextInput
+                value={offsetStr}
+                onChangeText={setOffsetStr}
+                keyboardType="number-pad"
+                placeholder="30"
+                placeholderTextColor="#999"
+                editable={!loading}
+                style={styles.input}
+              />
+            </View>
+          </View>
+
+          <Pressable
+            onPress={onAddOffset}
+            disabled={loading}
+            style={({ pressed }) => [
+              styles.saveButton,
+              loading && styles.saveButtonDisabled,
+              pressed && styles.saveButtonPressed,
+            ]}
+          >
+            <Text style={styles.saveButtonText}>Add reminder day</Text>
+          </Pressable>
+        </View>
+
+        {/* Upcoming reminders preview */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Ionicons name="list-outline" size={20} color="#0F3A5F" />
+            <Text style={styles.cardTitle}>Upcoming reminders</Text>
+          </View>
+          <Text style={styles.cardDescription}>
+            When each reminder will fire, in this device&apos;s local time.
+          </Text>
+
+          {!enabled ? (
+            <Text style={styles.emptyText}>Reminders are turned off.</Text>
+          ) : preview.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing scheduled for your tracked visas.</Text>
+          ) : (
+            preview.map((r) => {
+              const visa = visas.find((v) => v.id === r.visaId);
+              return (
+                <View key={r.key} style={styles.previewRow}>
+                  <Text style={styles.previewDate}>{formatLocal(r.date)}</Text>
+                  <Text style={styles.previewBody}>
+                    {visa ? `${visa.countryCode} • ${visa.visaLabel}: ` : `${r.title}: `}
+                    {r.body}
+                  </Text>
+                </View>
+              );
+            })
+          )}
+        </View>
+
+        {/* Backup */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Ionicons name="cloud-download-outline" size={20} color="#0F3A5F" />
+            <Text style={styles.cardTitle}>Backup</Text>
+          </View>
+          <Text style={styles.cardDescription}>
+            Save every visa, passport, traveller and setting to a JSON file, optionally
+            encrypted with a passphrase, or restore from one.
+          </Text>
+
+          <View style={styles.buttonRow}>
+            <Pressable
+              onPress={onExportBackup}
+              disabled={loading}
+              style={({ pressed }) => [
+                styles.saveButton,
+                styles.rowButton,
+                loading && styles.saveButtonDisabled,
+                pressed && styles.saveButtonPressed,
+              ]}
+            >
+              <Text style={styles.saveButtonText}>Export</Text>
+            </Pressable>
+            <Pressable
+              onPress={onRestoreBackup}
+              disabled={loading}
+              style={({ pressed }) => [
+                styles.saveButton,
+                styles.rowButton,
+                loading && styles.saveButtonDisabled,
+                pressed && styles.saveButtonPressed,
+              ]}
+            >
+              <Text style={styles.saveButtonText}>Restore</Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {/* Calendar */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Ionicons name="calendar-number-outline" size={20} color="#0F3A5F" />
+            <Text style={styles.cardTitle}>Calendar</Text>
+          </View>
+          <Text style={styles.cardDescription}>
+            Export expiry dates as an .ics file with your reminders as alerts.
+            Importing a newer export updates the same events.
+          </Text>
+
+          <Pressable
+            onPress={onExportCalendar}
+            disabled={loading}
+            style={({ pressed }) => [
+              styles.saveButton,
+              styles.cardButton,
+              loading && styles.saveButtonDisabled,
+              pressed && styles.saveButtonPressed,
+            ]}
+          >
+            <Text style={styles.saveButtonText}>Export to calendar</Text>
+          </Pressable>
+        </View>
+
+        {/* Spreadsheet */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Ionicons name="grid-outline" size={20} color="#0F3A5F" />
+            <Text style={styles.cardTitle}>Spreadsheet (CSV)</Text>
+          </View>
+          <Text style={styles.cardDescription}>
+            Export every visa with its stays, expiry and status, or import visa
+            history from a spreadsheet.
+          </Text>
+
+          <View style={styles.buttonRow}>
+            <Pressable
+              onPress={onExportCsv}
+              disabled={loading}
+              style={({ pressed }) => [
+                styles.saveButton,
+                styles.rowButton,
+                loading && styles.saveButtonDisabled,
+                pressed && styles.saveButtonPressed,
+              ]}
+            >
+              <Text style={styles.saveButtonText}>Export</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => router.push("/csv-import")}
+              disabled={loading}
+              style={({ pressed }) => [
+                styles.saveButton,
+                styles.rowButton,
+                loading && styles.saveButtonDisabled,
+                pressed && styles.saveButtonPressed,
+              ]}
+            >
+              <Text style={styles.saveButtonText}>Import</Text>
+            </Pressable>
+          </View>
+        </View>
+
         <View style={styles.footer}>
           <Ionicons name="lock-closed-outline" size={14} color="#999" />
           <Text style={styles.footerText}>
-            No account required. No data leaves your device.
+            No account required. Data only leaves your device when you export it.
           </Text>
         </View>
-      </View>
+      </ScrollView>
+
+      <PassphrasePrompt
+        visible={passPrompt !== null}
+        title={passPrompt?.kind === "export" ? "Choose a passphrase" : "Encrypted backup"}
+        message={
+          passPrompt?.kind === "export"
+            ? "You'll need it to restore this backup. It can't be recovered if you forget it."
+            : "Enter the passphrase this backup was exported with."
+        }
+        confirm={passPrompt?.kind === "export"}
+        busy={passBusy}
+        error={passError}
+        onCancel={closePassPrompt}
+        onSubmit={onSubmitPassphrase}
+      />
     </View>
   );
 }
@@ -270,6 +676,8 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
+  },
+  scrollContent: {
     padding: 20,
   },
   sectionDescription: {
@@ -372,6 +780,17 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     fontSize: 15,
   },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 14,
+  },
+  rowButton: {
+    flex: 1,
+  },
+  cardButton: {
+    marginTop: 14,
+  },
   checkPermissionButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -385,6 +804,47 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     fontSize: 14,
   },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+  },
+  chipText: {
+    color: "#0F3A5F",
+    fontWeight: "700",
+    fontSize: 13,
+  },
+  emptyText: {
+    color: "#888",
+    fontSize: 14,
+    marginTop: 12,
+  },
+  previewRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F0F0",
+  },
+  previewDate: {
+    fontWeight: "700",
+    color: "#0B2E4A",
+    fontSize: 14,
+  },
+  previewBody: {
+    color: "#666",
+    fontSize: 13,
+    marginTop: 2,
+  },
   footer: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,831 @@
+import { useEffect, useMemo, useState } from "react";
+import { View, Text, Pressable, Alert, StyleSheet, ScrollView } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  deleteVisa,
+  Extension,
+  getStays,
+  removeExtension,
+  undoDeparture,
+  Visa,
+} from "../../services/storage";
+import { useVisas } from "../../hooks/use-visas";
+import { useNow } from "../../hooks/use-now";
+import { usePassports } from "../../hooks/use-passports";
+import { useProfiles } from "../../hooks/use-profiles";
+import { getReminderSettings, ReminderSettings } from "../../services/settings";
+import {
+  cancelScheduled,
+  effectiveReminderSettings,
+  reconcileReminders,
+  visaReminders,
+} from "../../services/notifications";
+import { departure, extensionChain, visaStatus } from "../../services/countdown";
+import {
+  describeSchengenLimit,
+  SCHENGEN_MAX_DAYS,
+  visaCountdown,
+} from "../../services/schengen";
+import { estimateFine, formatFine, OVERSTAY_FINES } from "../../services/fines";
+import { addDaysUTC, daysBetweenUTC, describeDuration } from "../../services/dates";
+import { countryDisplay, flagEmoji } from "../../services/countries";
+import { dayCountingFor, describeDayCounting } from "../../services/day-counting";
+import { capPeriodLabel, describeCap, stayCapStatus } from "../../services/stay-caps";
+import {
+  describePassport,
+  describePassportWarning,
+  passportWarning,
+} from "../../services/passports";
+import { findProfile, sameTraveller, travellerName } from "../../services/profiles";
+import {
+  deviceTimeZone,
+  formatTimeLeft,
+  timeIn,
+  timeZoneCity,
+  todayIn,
+  visaTimeZone,
+} from "../../services/timezones";
+
+/* ---------------- helpers ---------------- */
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+// `today` is the date on the visa's clock
+function relativeDays(dateStr: string, today: string) {
+  const n = daysBetweenUTC(addDaysUTC(today, 0), addDaysUTC(dateStr, 0));
+  if (n === 0) return "today";
+  return n > 0 ? `in ${n} day(s)` : `${-n} day(s) ago`;
+}
+
+// "+30 days" or "until 2026-03-31", plus the reference when there is one
+function describeExtension(e: Extension) {
+  const change = e.newEndDate ? `until ${e.newEndDate}` : `+${e.extraDays} day(s)`;
+  return e.reference ? `${change} • Ref ${e.reference}` : change;
+}
+
+type TimelineKind = "entry" | "exit" | "extension" | "reminder" | "today" | "expiry";
+
+type TimelineEvent = {
+  date: string; // YYYY-MM-DD
+  kind: TimelineKind;
+  title: string;
+  detail?: string;
+};
+
+// Same-day events read in this order: arrive, extend, get reminded, see today, expire, leave
+const KIND_ORDER: TimelineKind[] = ["entry", "extension", "reminder", "today", "expiry", "exit"];
+
+const KIND_ICON: Record<TimelineKind, keyof typeof Ionicons.glyphMap> = {
+  entry: "log-in-outline",
+  exit: "log-out-outline",
+  extension: "add-circle-outline",
+  reminder: "notifications-outline",
+  today: "today-outline",
+  expiry: "flag-outline",
+};
+
+// `all` is every stored visa, for the Schengen days reminders are counted from
+function buildTimeline(
+  v: Visa,
+  all: Visa[],
+  expiryISO: string,
+  inCountry: boolean,
+  settings: ReminderSettings | null,
+  today: string,
+  traveller: string | null
+): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  // Reminders fire on the visa's clock, so their day and time are read there too
+  const timeZone = visaTimeZone(v);
+
+  for (const s of getStays(v)) {
+    events.push({ date: s.entryDate, kind: "entry", title: `Entered ${v.countryCode}` });
+    if (s.exitDate) {
+      events.push({ date: s.exitDate, kind: "exit", title: `Left ${v.countryCode}` });
+    }
+  }
+
+  for (const e of v.extensions ?? []) {
+    events.push({
+      date: e.grantedDate,
+      kind: "extension",
+      title: "Extension granted",
+      detail: describeExtension(e),
+    });
+  }
+
+  if (settings?.enabled) {
+    const now = new Date();
+    for (const r of visaReminders(v, all, settings, now, traveller)) {
+      events.push({
+        date: todayIn(timeZone, r.date),
+        kind: "reminder",
+        title: r.date > now ? "Reminder scheduled" : "Reminder sent",
+        detail: `${timeIn(timeZone, r.date)} • ${r.body}`,
+      });
+    }
+  }
+
+  events.push({ date: today, kind: "today", title: "Today" });
+  events.push({
+    date: expiryISO,
+    kind: "expiry",
+    title: inCountry ? "Visa expires" : "Validity ends",
+  });
+
+  return events.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+  );
+}
+
+/* ---------------- screen ---------------- */
+
+export default function VisaDetail() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const visas = useVisas();
+  const passports = usePassports();
+  const profiles = useProfiles();
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+
+  useEffect(() => {
+    getReminderSettings().then(setSettings);
+  }, []);
+
+  const visa = visas.find((v) => v.id === id) ?? null;
+  const now = useNow();
+  const timeZone = visa ? visaTimeZone(visa) : deviceTimeZone();
+  const today = todayIn(timeZone, now);
+
+  const countdown = useMemo(
+    () => (visa ? visaCountdown(visa, visas, now) : null),
+    [visa, visas, now]
+  );
+  const expiryISO = countdown?.expiry.toISOString().slice(0, 10) ?? "";
+
+  const timeline = useMemo(
+    () =>
+      visa && countdown
+        ? buildTimeline(
+            visa,
+            visas,
+            expiryISO,
+            countdown.inCountry,
+            settings,
+            today,
+            travellerName(profiles, visa)
+          )
+        : [],
+    [visa, visas, countdown, expiryISO, settings, today, profiles]
+  );
+
+  function onRemoveExtension(e: Extension) {
+    if (!visa) return;
+    Alert.alert("Remove extension?", `Granted ${e.grantedDate}, ${describeExtension(e)}.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await removeExtension(visa.id, e.id);
+            await reconcileReminders();
+          } catch (err: any) {
+            Alert.alert("Remove failed", err?.message ?? "Unknown error");
+          }
+        },
+      },
+    ]);
+  }
+
+  function onUndoDeparture() {
+    if (!visa) return;
+    Alert.alert(
+      "Undo departure?",
+      "The visa moves back to the active list. The logged exit is kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Undo",
+          onPress: async () => {
+            try {
+              await undoDeparture(visa.id);
+              await reconcileReminders();
+            } catch (err: any) {
+              Alert.alert("Undo failed", err?.message ?? "Unknown error");
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  function onDelete() {
+    if (!visa) return;
+    Alert.alert("Delete visa?", "This will remove the visa and cancel its reminders.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          if (visa.notificationIds?.length) {
+            await cancelScheduled(visa.notificationIds);
+          }
+          await deleteVisa(visa.id);
+          router.replace("/");
+        },
+      },
+    ]);
+  }
+
+  const header = (
+    <LinearGradient colors={["#0B2E4A", "#0F3A5F"]} style={styles.header}>
+      <View style={styles.headerContent}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>
+          {visa ? `${flagEmoji(visa.countryCode)} ${visa.countryCode} • ${visa.visaLabel}` : "Visa"}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+    </LinearGradient>
+  );
+
+  if (!visa || !countdown) {
+    return (
+      <View style={styles.container}>
+        {header}
+        <View style={styles.missing}>
+          <Text style={styles.missingText}>This visa isn&apos;t on this device.</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const { daysRemaining, inCountry, schengen } = countdown;
+  const expired = daysRemaining < 0;
+  const departed = departure(visa);
+  const status = visaStatus(daysRemaining, inCountry);
+  const accent = departed
+    ? departed.onTime
+      ? "#2ECC71"
+      : "#E74C3C"
+    : {
+        safe: "#2ECC71",
+        warning: "#F5B301",
+        urgent: "#E74C3C",
+        expired: "#888888",
+        overstay: "#C0392B",
+      }[status];
+
+  // Days past expiry: still accruing while in the country, final once departed
+  const daysOver = departed
+    ? Math.max(0, -departed.daysBeforeExpiry)
+    : status === "overstay"
+    ? -daysRemaining
+    : 0;
+  const fineRule = OVERSTAY_FINES[visa.countryCode];
+  const fine = estimateFine(visa.countryCode, daysOver);
+
+  const stays = getStays(visa);
+  const reminders = settings ? effectiveReminderSettings(visa, settings) : null;
+  const phoneZone = deviceTimeZone();
+
+  const details: [string, string][] = [
+    ["Traveller", findProfile(profiles, visa.profileId).name],
+    ["Country", `${countryDisplay(visa.countryCode)} (${visa.countryCode})`],
+    ["Visa type", visa.visaLabel],
+    ["First entry", visa.entryDate],
+    [
+      visa.multiEntry ? "Stay per entry" : "Allowed stay",
+      describeDuration(visa.durationDays, visa.durationUnit),
+    ],
+    ["Multi-entry", visa.multiEntry ? "Yes" : "No"],
+  ];
+  if (visa.validUntil) details.push(["Valid until", visa.validUntil]);
+  details.push(["Day counting", describeDayCounting(dayCountingFor(visa))]);
+  details.push([
+    "Time zone",
+    timeZone === phoneZone ? timeZone : `${timeZone} (phone is on ${timeZoneCity(phoneZone)})`,
+  ]);
+  const cap = stayCapStatus(visa.countryCode, sameTraveller(visas, visa), now);
+  if (cap) {
+    details.push([
+      "Yearly limit",
+      `${describeCap(cap.rule)} • ${cap.daysUsed} used ${capPeriodLabel(cap.rule)}`,
+    ]);
+  }
+  const passport = passports.find((p) => p.id === visa.passportId);
+  if (passport) {
+    details.push(["Passport", `${describePassport(passport)}, expires ${passport.expiryDate}`]);
+  }
+  const passportIssue = passportWarning(visa, passports);
+  details.push(["Entries", String(stays.length)]);
+  if (reminders) {
+    details.push([
+      "Reminders",
+      !settings?.enabled
+        ? "Off in Settings"
+        : reminders.muted
+        ? "Muted for this visa"
+        : `${reminders.offsetsDays.join(", ")} day(s) before at ${pad2(reminders.hour)}:${pad2(
+            reminders.minute
+          )}`,
+    ]);
+  }
+  details.push(["Added", visa.createdAt.slice(0, 10)]);
+
+  // One chain per stay that was extended, oldest stay first
+  const chains = stays
+    .map((stay) => ({ stay, ...extensionChain(visa, stay) }))
+    .filter((c) => c.steps.length > 0);
+
+  return (
+    <View style={styles.container}>
+      {header}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {/* Countdown */}
+        <View style={[styles.card, styles.summaryCard, { borderLeftColor: accent }]}>
+          {departed ? (
+            <>
+              <Text style={[styles.countdown, { color: accent }]}>
+                {departed.onTime ? "Left on time" : "Left late"}
+              </Text>
+              <Text style={styles.summaryText}>
+                Departed {departed.date} •{" "}
+                {departed.daysBeforeExpiry === 0
+                  ? "the last allowed day"
+                  : departed.onTime
+                  ? `${departed.daysBeforeExpiry} day(s) before expiry`
+                  : `${-departed.daysBeforeExpiry} day(s) after expiry`}
+              </Text>
+              <Text style={styles.summaryText}>Allowed until {departed.expiry}</Text>
+            </>
+          ) : (
+            <>
+              <Text style={[styles.countdown, { color: accent }]}>
+                {status === "overstay"
+                  ? `Overstay: ${-daysRemaining} day(s)`
+                  : expired
+                  ? `Expired ${Math.abs(daysRemaining)} day(s) ago`
+                  : inCountry && daysRemaining === 0
+                  ? `Last day: ${formatTimeLeft(countdown.endsAt.getTime() - now.getTime())} left`
+                  : inCountry
+                  ? `${daysRemaining} day(s) left`
+                  : `${daysRemaining} day(s) of validity left`}
+              </Text>
+              <Text style={styles.summaryText}>
+                {schengen
+                  ? describeSchengenLimit(countdown)
+                  : `${inCountry ? "Expires" : "Valid until"} ${expiryISO}`}
+              </Text>
+            </>
+          )}
+          {schengen && !departed && (
+            <Text style={styles.summaryText}>
+              Schengen: {schengen.daysUsed}/{SCHENGEN_MAX_DAYS} days used in the last 180
+            </Text>
+          )}
+          {passportIssue && (
+            <Text style={styles.passportWarning}>{describePassportWarning(passportIssue)}</Text>
+          )}
+        </View>
+
+        {/* Overstay */}
+        {daysOver > 0 && (
+          <View style={[styles.card, styles.overstayCard]}>
+            <Text style={styles.cardTitle}>Overstay</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Days over</Text>
+              <Text style={styles.detailValue}>{daysOver}</Text>
+            </View>
+            {fineRule ? (
+              <>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Daily rate</Text>
+                  <Text style={styles.detailValue}>
+                    {formatFine(fineRule.perDay, fineRule.currency)}
+                  </Text>
+                </View>
+                {fineRule.cap !== undefined && (
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Maximum</Text>
+                    <Text style={styles.detailValue}>
+                      {formatFine(fineRule.cap, fineRule.currency)}
+                    </Text>
+                  </View>
+                )}
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>
+                    {departed ? "Estimated fine" : "Estimated fine so far"}
+                  </Text>
+                  <Text style={[styles.detailValue, styles.fineValue]}>
+                    {fine ? formatFine(fine.amount, fine.rule.currency) : "-"}
+                    {fine?.capped ? " (maximum)" : ""}
+                  </Text>
+                </View>
+              </>
+            ) : (
+              <Text style={styles.overstayNote}>
+                No fine data for {visa.countryCode} in this app.
+              </Text>
+            )}
+            <Text style={styles.overstayNote}>
+              Estimate only. Rules change and officers have discretion, so confirm with
+              immigration.
+            </Text>
+          </View>
+        )}
+
+        {/* Record */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Details</Text>
+          {details.map(([label, value]) => (
+            <View key={label} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{label}</Text>
+              <Text style={styles.detailValue}>{value}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Extensions */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Extensions</Text>
+          {chains.length === 0 ? (
+            <Text style={styles.notesEmpty}>No extensions recorded.</Text>
+          ) : (
+            chains.map(({ stay, baseExpiry, steps }) => (
+              <View key={stay.entryDate} style={styles.chain}>
+                {stays.length > 1 && (
+                  <Text style={styles.chainStay}>Stay from {stay.entryDate}</Text>
+                )}
+                <Text style={styles.chainRow}>
+                  Original expiry {baseExpiry.toISOString().slice(0, 10)}
+                </Text>
+                {steps.map(({ extension, expiry }) => (
+                  <View key={extension.id} style={styles.chainStep}>
+                    <Ionicons name="arrow-down" size={14} color="#888" />
+                    <View style={styles.chainStepBody}>
+                      <Text style={styles.chainRow}>
+                        Expires {expiry.toISOString().slice(0, 10)}
+                      </Text>
+                      <Text style={styles.chainDetail}>
+                        Granted {extension.grantedDate} • {describeExtension(extension)}
+                      </Text>
+                    </View>
+                    <Pressable
+                      onPress={() => onRemoveExtension(extension)}
+                      hitSlop={8}
+                      style={styles.chainRemove}
+                    >
+                      <Ionicons name="close-circle-outline" size={18} color="#C0392B" />
+                    </Pressable>
+                  </View>
+                ))}
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Timeline */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Timeline</Text>
+          {timeline.map((e, i) => {
+            const past = e.date < today;
+            const isToday = e.kind === "today";
+            return (
+              <View key={`${e.date}_${e.kind}_${i}`} style={styles.timelineRow}>
+                <View style={styles.timelineRail}>
+                  <View
+                    style={[
+                      styles.timelineDot,
+                      isToday && { backgroundColor: accent },
+                      past && styles.timelineDotPast,
+                    ]}
+                  >
+                    <Ionicons
+                      name={KIND_ICON[e.kind]}
+                      size={14}
+                      color={past ? "#999" : "#FFFFFF"}
+                    />
+                  </View>
+                  {i < timeline.length - 1 && <View style={styles.timelineLine} />}
+                </View>
+                <View style={styles.timelineBody}>
+                  <Text style={[styles.timelineTitle, past && styles.timelinePast]}>
+                    {e.title}
+                  </Text>
+                  <Text style={styles.timelineDate}>
+                    {e.date}
+                    {isToday ? "" : ` • ${relativeDays(e.date, today)}`}
+                  </Text>
+                  {e.detail && <Text style={styles.timelineDetail}>{e.detail}</Text>}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Notes */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Notes</Text>
+          <Text style={visa.notes ? styles.notesText : styles.notesEmpty}>
+            {visa.notes ?? "No notes yet. Add some with Edit."}
+          </Text>
+        </View>
+
+        {/* Actions */}
+        <View style={styles.actionsCard}>
+          <ActionButton
+            icon="create-outline"
+            label="Edit"
+            onPress={() => router.push({ pathname: "/add", params: { id: visa.id } })}
+          />
+          {departed ? (
+            <ActionButton
+              icon="arrow-undo-outline"
+              label="Undo departure"
+              onPress={onUndoDeparture}
+            />
+          ) : (
+            <>
+              {inCountry && (
+                <ActionButton
+                  icon="add-circle-outline"
+                  label="Extend"
+                  onPress={() => router.push({ pathname: "/extend", params: { id: visa.id } })}
+                />
+              )}
+              <ActionButton
+                icon="airplane-outline"
+                label="Mark departed"
+                onPress={() =>
+                  router.push({ pathname: "/log-stay", params: { id: visa.id, mode: "depart" } })
+                }
+              />
+            </>
+          )}
+          <ActionButton icon="trash-outline" label="Delete" destructive onPress={onDelete} />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+function ActionButton({
+  icon,
+  label,
+  destructive = false,
+  onPress,
+}: {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+}) {
+  const color = destructive ? "#C0392B" : "#0F3A5F";
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
+    >
+      <Ionicons name={icon} size={18} color={color} />
+      <Text style={[styles.actionText, { color }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F4F6F8",
+  },
+  header: {
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  headerContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+    borderRadius: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  missing: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 40,
+  },
+  missingText: {
+    fontSize: 15,
+    color: "#666",
+    textAlign: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#0B2E4A",
+    marginBottom: 12,
+  },
+  summaryCard: {
+    borderLeftWidth: 5,
+  },
+  countdown: {
+    fontSize: 28,
+    fontWeight: "900",
+    marginBottom: 6,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  passportWarning: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8A5A00",
+    marginTop: 6,
+  },
+  overstayCard: {
+    borderWidth: 1,
+    borderColor: "#F5C6C0",
+  },
+  fineValue: {
+    color: "#C0392B",
+  },
+  overstayNote: {
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+    marginTop: 10,
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0F0F0",
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: "#888",
+  },
+  detailValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#0B2E4A",
+    textAlign: "right",
+  },
+  chain: {
+    gap: 6,
+  },
+  chainStay: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#888",
+    marginTop: 4,
+  },
+  chainRow: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#0B2E4A",
+  },
+  chainStep: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  chainStepBody: {
+    flex: 1,
+  },
+  chainDetail: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  chainRemove: {
+    padding: 4,
+  },
+  timelineRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  timelineRail: {
+    alignItems: "center",
+    width: 26,
+  },
+  timelineDot: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: "#0F3A5F",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  timelineDotPast: {
+    backgroundColor: "#E8EEF4",
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    minHeight: 12,
+    backgroundColor: "#E8EEF4",
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#0B2E4A",
+  },
+  timelinePast: {
+    color: "#888",
+  },
+  timelineDate: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 2,
+  },
+  timelineDetail: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  notesText: {
+    fontSize: 15,
+    color: "#0B2E4A",
+    lineHeight: 22,
+  },
+  notesEmpty: {
+    fontSize: 14,
+    color: "#999",
+  },
+  actionsCard: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#FFFFFF",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  actionButtonPressed: {
+    opacity: 0.8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
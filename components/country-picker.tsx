@@ -0,0 +1,207 @@
+import { useMemo, useState } from "react";
+import { View, Text, TextInput, Pressable, Modal, FlatList, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Country,
+  countryZones,
+  flagEmoji,
+  getCountry,
+  searchCountries,
+} from "../services/countries";
+
+type Props = {
+  value: string; // ISO 3166-1 alpha-2
+  onChange: (code: string) => void;
+};
+
+// Field showing the chosen country; tapping it opens a searchable list.
+export function CountryPicker({ value, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const selected = getCountry(value);
+  const results = useMemo(() => searchCountries(query), [query]);
+
+  function close() {
+    setOpen(false);
+    setQuery("");
+  }
+
+  function choose(country: Country) {
+    onChange(country.code);
+    close();
+  }
+
+  return (
+    <>
+      <Pressable
+        onPress={() => setOpen(true)}
+        style={({ pressed }) => [styles.field, pressed && styles.fieldPressed]}
+      >
+        <Text style={styles.fieldText}>
+          {selected ? `${flagEmoji(selected.code)}  ${selected.name}` : "Choose a country"}
+        </Text>
+        {selected && <Text style={styles.fieldCode}>{selected.code}</Text>}
+        <Ionicons name="chevron-down" size={18} color="#888" />
+      </Pressable>
+
+      <Modal visible={open} animationType="slide" onRequestClose={close}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Country</Text>
+            <Pressable onPress={close} style={styles.closeButton}>
+              <Text style={styles.closeText}>Cancel</Text>
+            </Pressable>
+          </View>
+
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color="#888" />
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Name, code, region or Schengen"
+              placeholderTextColor="#999"
+              autoCorrect={false}
+              autoFocus
+              style={styles.searchInput}
+            />
+          </View>
+
+          <FlatList
+            data={results}
+            keyExtractor={(c) => c.code}
+            keyboardShouldPersistTaps="handled"
+            initialNumToRender={30}
+            ListEmptyComponent={<Text style={styles.emptyText}>No matching country</Text>}
+            renderItem={({ item }) => {
+              const zones = countryZones(item.code);
+              return (
+                <Pressable
+                  onPress={() => choose(item)}
+                  style={({ pressed }) => [
+                    styles.row,
+                    item.code === selected?.code && styles.rowSelected,
+                    pressed && styles.rowPressed,
+                  ]}
+                >
+                  <Text style={styles.rowFlag}>{flagEmoji(item.code)}</Text>
+                  <View style={styles.rowBody}>
+                    <Text style={styles.rowName}>{item.name}</Text>
+                    <Text style={styles.rowMeta}>
+                      {[item.code, item.region, ...zones].join(" • ")}
+                    </Text>
+                  </View>
+                  {item.code === selected?.code && (
+                    <Ionicons name="checkmark" size={20} color="#0F3A5F" />
+                  )}
+                </Pressable>
+              );
+            }}
+          />
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+  },
+  fieldPressed: {
+    opacity: 0.8,
+  },
+  fieldText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "500",
+  },
+  fieldCode: {
+    fontSize: 14,
+    color: "#888",
+    fontWeight: "600",
+  },
+  sheet: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+    paddingTop: 60,
+  },
+  sheetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#0B2E4A",
+  },
+  closeButton: {
+    paddingVertical: 8,
+    paddingLeft: 12,
+  },
+  closeText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 15,
+  },
+  searchBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    marginHorizontal: 20,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: "#0B2E4A",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  rowSelected: {
+    backgroundColor: "#E8EEF4",
+  },
+  rowPressed: {
+    opacity: 0.7,
+  },
+  rowFlag: {
+    fontSize: 24,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "600",
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#888",
+    fontSize: 14,
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { View, Text, TextInput, Pressable, Platform, StyleSheet } from "react-native";
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+import { addDaysUTC, isValidDateYYYYMMDD, localTodayISO } from "../services/dates";
+
+export type QuickDate = {
+  label: string;
+  offsetDays: number; // from today; negative is in the past
+};
+
+export const PAST_QUICK_DATES: QuickDate[] = [
+  { label: "Today", offsetDays: 0 },
+  { label: "Yesterday", offsetDays: -1 },
+];
+
+type Props = {
+  value: string; // YYYY-MM-DD, or "" when nothing is picked yet
+  onChange: (date: string) => void;
+  quickDates?: QuickDate[];
+  placeholder?: string;
+};
+
+/* ---------- conversions ---------- */
+
+// The picker works in local time; a calendar date has no time zone, so the
+// local midnight of that day stands in for it and goes back the same way.
+function toPickerDate(value: string) {
+  if (!isValidDateYYYYMMDD(value)) return new Date();
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function fromPickerDate(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// e.g. "Wed, 14 Jan 2026"
+function formatLong(value: string) {
+  return toPickerDate(value).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/* ---------- component ---------- */
+
+// Native date picker on iOS and Android; the web has no native picker in
+// React Native, so it falls back to typing YYYY-MM-DD.
+export function DateField({ value, onChange, quickDates = [], placeholder = "2026-01-14" }: Props) {
+  const [open, setOpen] = useState(false);
+
+  function onPicked(event: DateTimePickerEvent, date?: Date) {
+    // Android shows a dialog that closes itself; iOS stays inline until tapped again
+    if (Platform.OS === "android") setOpen(false);
+    if (event.type === "set" && date) onChange(fromPickerDate(date));
+  }
+
+  // Counted from the phone's calendar date, like the picker
+  const quick = quickDates.map((q) => ({
+    ...q,
+    date: addDaysUTC(localTodayISO(), q.offsetDays).toISOString().slice(0, 10),
+  }));
+
+  return (
+    <View>
+      {Platform.OS === "web" ? (
+        <TextInput
+          value={value}
+          onChangeText={onChange}
+          placeholder={placeholder}
+          placeholderTextColor="#999"
+          keyboardType="numbers-and-punctuation"
+          style={styles.input}
+        />
+      ) : (
+        <Pressable
+          onPress={() => setOpen(!open)}
+          style={({ pressed }) => [styles.field, pressed && styles.fieldPressed]}
+        >
+          <Ionicons name="calendar-outline" size={18} color="#0F3A5F" />
+          <Text style={[styles.fieldText, !value && styles.fieldPlaceholder]}>
+            {isValidDateYYYYMMDD(value) ? formatLong(value) : "Choose a date"}
+          </Text>
+          <Ionicons name={open ? "chevron-up" : "chevron-down"} size={18} color="#888" />
+        </Pressable>
+      )}
+
+      {open && Platform.OS !== "web" && (
+        <DateTimePicker
+          value={toPickerDate(value)}
+          mode="date"
+          display={Platform.OS === "ios" ? "inline" : "default"}
+          onChange={onPicked}
+        />
+      )}
+
+      {quick.length > 0 && (
+        <View style={styles.chipRow}>
+          {quick.map((q) => (
+            <Pressable
+              key={q.label}
+              onPress={() => {
+                onChange(q.date);
+                setOpen(false);
+              }}
+              style={[styles.chip, value === q.date && styles.chipSelected]}
+            >
+              <Text style={[styles.chipText, value === q.date && styles.chipTextSelected]}>
+                {q.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "500",
+  },
+  field: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+  },
+  fieldPressed: {
+    opacity: 0.8,
+  },
+  fieldText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "500",
+  },
+  fieldPlaceholder: {
+    color: "#999",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  chipSelected: {
+    backgroundColor: "#0F3A5F",
+  },
+  chipText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+} from "react-native";
+import { MIN_PASSPHRASE_LENGTH } from "../services/encryption";
+
+type Props = {
+  visible: boolean;
+  title: string;
+  message: string;
+  confirm?: boolean; // ask twice, for choosing a new passphrase
+  busy?: boolean;
+  error?: string | null;
+  onCancel: () => void;
+  onSubmit: (passphrase: string) => void;
+};
+
+// Modal passphrase entry; Alert.prompt only exists on iOS.
+export function PassphrasePrompt({
+  visible,
+  title,
+  message,
+  confirm = false,
+  busy = false,
+  error,
+  onCancel,
+  onSubmit,
+}: Props) {
+  const [passphrase, setPassphrase] = useState("");
+  const [repeat, setRepeat] = useState("");
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  // Never keep a passphrase around between uses
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase("");
+      setRepeat("");
+      setLocalError(null);
+    }
+  }, [visible]);
+
+  function submit() {
+    if (confirm && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setLocalError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (confirm && passphrase !== repeat) {
+      setLocalError("The passphrases don't match.");
+      return;
+    }
+    if (!passphrase) {
+      setLocalError("Enter the passphrase.");
+      return;
+    }
+    setLocalError(null);
+    onSubmit(passphrase);
+  }
+
+  const shownError = localError ?? error;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.message}>{message}</Text>
+
+          <TextInput
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="Passphrase"
+            placeholderTextColor="#999"
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!busy}
+            style={styles.input}
+          />
+          {confirm && (
+            <TextInput
+              value={repeat}
+              onChangeText={setRepeat}
+              placeholder="Repeat passphrase"
+              placeholderTextColor="#999"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!busy}
+              style={styles.input}
+            />
+          )}
+
+          {shownError && <Text style={styles.error}>{shownError}</Text>}
+
+          <View style={styles.buttonRow}>
+            <Pressable onPress={onCancel} disabled={busy} style={styles.cancelButton}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={submit}
+              disabled={busy}
+              style={({ pressed }) => [
+                styles.okButton,
+                busy && styles.okButtonDisabled,
+                pressed && styles.okButtonPressed,
+              ]}
+            >
+              {busy ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.okText}>Continue</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "center",
+    padding: 24,
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#0B2E4A",
+  },
+  message: {
+    color: "#666",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  input: {
+    backgroundColor: "#F4F6F8",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: "#0B2E4A",
+    fontWeight: "600",
+  },
+  error: {
+    color: "#C0392B",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 12,
+    marginTop: 4,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  cancelText: {
+    color: "#666",
+    fontWeight: "600",
+    fontSize: 15,
+  },
+  okButton: {
+    backgroundColor: "#0F3A5F",
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    minWidth: 110,
+    alignItems: "center",
+  },
+  okButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  okButtonPressed: {
+    opacity: 0.9,
+  },
+  okText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 15,
+  },
+});
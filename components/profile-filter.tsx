@@ -0,0 +1,88 @@
+import { View, Text, Pressable, ScrollView, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { Profile } from "../services/profiles";
+
+type Props = {
+  profiles: Profile[];
+  value: string | null; // profile id, or null for everyone
+  onChange: (id: string | null) => void;
+  allowAll?: boolean;   // offer an "Everyone" chip that sets null
+  onManage?: () => void; // adds a chip leading to the traveller list
+};
+
+// A row of traveller chips, each marked with the traveller's colour.
+export function ProfileFilter({ profiles, value, onChange, allowAll = false, onManage }: Props) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+      keyboardShouldPersistTaps="handled"
+    >
+      {allowAll && (
+        <Pressable
+          onPress={() => onChange(null)}
+          style={[styles.chip, value === null && styles.chipSelected]}
+        >
+          <Text style={[styles.chipText, value === null && styles.chipTextSelected]}>
+            Everyone
+          </Text>
+        </Pressable>
+      )}
+
+      {profiles.map((p) => (
+        <Pressable
+          key={p.id}
+          onPress={() => onChange(p.id)}
+          style={[styles.chip, value === p.id && styles.chipSelected]}
+        >
+          <View style={[styles.dot, { backgroundColor: p.color }]} />
+          <Text style={[styles.chipText, value === p.id && styles.chipTextSelected]}>
+            {p.name}
+          </Text>
+        </Pressable>
+      ))}
+
+      {onManage && (
+        <Pressable onPress={onManage} style={styles.chip}>
+          <Ionicons name="people-outline" size={14} color="#0F3A5F" />
+          <Text style={styles.chipText}>Travellers</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+    paddingVertical: 2,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#E8EEF4",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  chipSelected: {
+    backgroundColor: "#0F3A5F",
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: "#FFFFFF",
+  },
+  chipText: {
+    color: "#0F3A5F",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The current time, refreshed every `intervalMs` while the screen is mounted.
+ */
+export function useNow(intervalMs = 60_000) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,9 @@
+import { passportStore } from "../services/passports";
+import { useStoredList } from "./use-stored-list";
+
+/**
+ * The stored passports, kept current by their write queue.
+ */
+export function usePassports() {
+  return useStoredList(passportStore);
+}
@@ -0,0 +1,9 @@
+import { profileStore } from "../services/profiles";
+import { useStoredList } from "./use-stored-list";
+
+/**
+ * The traveller profiles, default first, kept current by their write queue.
+ */
+export function useProfiles() {
+  return useStoredList(profileStore);
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import type { ListStore } from "../services/list-store";
+
+/**
+ * A stored list, kept current by its store's write queue.
+ */
+export function useStoredList<T>(store: ListStore<T>) {
+  const [items, setItems] = useState<T[]>([]);
+
+  useEffect(() => {
+    let updated = false;
+    const unsubscribe = store.subscribe((next) => {
+      updated = true;
+      setItems(next);
+    });
+
+    // A write that lands before the first read finishes is newer; keep it
+    store.get().then((x) => {
+      if (!updated) setItems(x);
+    });
+
+    return unsubscribe;
+  }, [store]);
+
+  return items;
+}
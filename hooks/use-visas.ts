@@ -0,0 +1,9 @@
+import { visaStore } from "../services/storage";
+import { useStoredList } from "./use-stored-list";
+
+/**
+ * The stored visa list, kept current by the storage write queue.
+ */
+export function useVisas() {
+  return useStoredList(visaStore);
+}
@@ -0,0 +1,213 @@
+import { mutateVisas, getVisas, Visa } from "./storage";
+import { getStoredReminderSettings, restoreStoredReminderSettings } from "./settings";
+import { migrateVisaRecord, SCHEMA_VERSION } from "./migrations";
+import {
+  isObject,
+  validatePassport,
+  validateProfile,
+  validateSettingString,
+  validateVisa,
+} from "./schema";
+import { getPassports, mutatePassports, Passport } from "./passports";
+import { getProfiles, mutateProfiles, Profile } from "./profiles";
+import { reconcileReminders } from "./notifications";
+import { pickTextFile, shareTextFile } from "./files";
+import { todayISO } from "./dates";
+import { decryptEnvelope, encryptText, isEncryptedEnvelope } from "./encryption";
+
+export const BACKUP_FORMAT = "overstayr-backup";
+export const BACKUP_VERSION = 1;
+export const BACKUP_MIME = "application/json";
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;        // backup file layout, BACKUP_VERSION
+  schemaVersion: number;  // storage schema the visas were written with
+  exportedAt: string;
+  visas: Visa[];
+  passports: Passport[];            // missing from backups made before passports existed
+  profiles: Profile[];              // likewise for travellers
+  settings: Record<string, string>; // raw reminder and residency settings by storage key
+};
+
+// What the file picker found: a plain backup is parsed straight away, an
+// encrypted one waits for the passphrase (see decryptBackup).
+export type PickedBackup =
+  | { encrypted: false; backup: Backup }
+  | { encrypted: true; envelope: unknown };
+
+export type RestoreMode = "merge" | "replace";
+
+export type RestoreResult = {
+  added: number;
+  skipped: number; // merge only: visas already on this device
+};
+
+/* ---------- export ---------- */
+
+export async function buildBackup(): Promise<Backup> {
+  const [visas, passports, profiles, settings] = await Promise.all([
+    getVisas(),
+    getPassports(),
+    getProfiles(),
+    getStoredReminderSettings(),
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Notification ids only mean something on the device that scheduled them
+    visas: visas.map((v) => ({ ...v, notificationIds: [] })),
+    passports,
+    profiles,
+    settings,
+  };
+}
+
+export type BackupFile = { fileName: string; text: string };
+
+// With a passphrase the file is encrypted (see services/encryption.ts), which
+// can take a few seconds; sharing is a separate step so the UI can show progress.
+export async function buildBackupFile(passphrase?: string): Promise<BackupFile> {
+  const json = JSON.stringify(await buildBackup(), null, 2);
+
+  if (passphrase === undefined) {
+    return { fileName: `overstayr-backup-${todayISO()}.json`, text: json };
+  }
+  return {
+    fileName: `overstayr-backup-${todayISO()}.encrypted.json`,
+    text: await encryptText(json, passphrase),
+  };
+}
+
+export async function shareBackupFile(file: BackupFile): Promise<void> {
+  await shareTextFile(file.fileName, BACKUP_MIME, file.text);
+}
+
+/* ---------- import ---------- */
+
+// Checks a backup file end to end. Throws with a message that can be shown
+// to the user as-is; nothing is written until the whole file is valid.
+export function parseBackup(text: string): Backup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error("This file is not an Overstayr backup.");
+  }
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of Overstayr. Update the app first.");
+  }
+
+  const schemaVersion =
+    typeof raw.schemaVersion === "number" && Number.isInteger(raw.schemaVersion)
+      ? raw.schemaVersion
+      : 0;
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new Error("This backup was made by a newer version of Overstayr. Update the app first.");
+  }
+  if (!Array.isArray(raw.visas)) throw new Error("The backup has no visa list.");
+
+  const visas: Visa[] = raw.visas.map((x: unknown, i: number) => {
+    const result = validateVisa(migrateVisaRecord(x, schemaVersion));
+    if (!result.ok) throw new Error(`Visa ${i + 1} is invalid: ${result.error}.`);
+    return result.value;
+  });
+
+  const passports: Passport[] = Array.isArray(raw.passports)
+    ? raw.passports.map((x: unknown, i: number) => {
+        const result = validatePassport(x);
+        if (!result.ok) throw new Error(`Passport ${i + 1} is invalid: ${result.error}.`);
+        return result.value;
+      })
+    : [];
+
+  const profiles: Profile[] = Array.isArray(raw.profiles)
+    ? raw.profiles.map((x: unknown, i: number) => {
+        const result = validateProfile(x);
+        if (!result.ok) throw new Error(`Traveller ${i + 1} is invalid: ${result.error}.`);
+        return result.value;
+      })
+    : [];
+
+  const settings: Record<string, string> = {};
+  if (isObject(raw.settings)) {
+    for (const [key, value] of Object.entries(raw.settings)) {
+      const result =
+        typeof value === "string"
+          ? validateSettingString(key, value)
+          : { ok: false as const, error: "Not a string" };
+      if (!result.ok) throw new Error(`Setting "${key}" is invalid: ${result.error}.`);
+      settings[key] = result.value;
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    visas,
+    passports,
+    profiles,
+    settings,
+  };
+}
+
+// Returns null if the user cancelled the file picker.
+export async function pickBackup(): Promise<PickedBackup | null> {
+  const text = await pickTextFile([BACKUP_MIME, "text/plain", "*/*"]);
+  if (text === null) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (isEncryptedEnvelope(raw)) return { encrypted: true, envelope: raw };
+  return { encrypted: false, backup: parseBackup(text) };
+}
+
+export async function decryptBackup(envelope: unknown, passphrase: string): Promise<Backup> {
+  return parseBackup(await decryptEnvelope(envelope, passphrase));
+}
+
+// Merge keeps everything on this device and adds visas, passports and travellers it doesn't
+// have yet; replace swaps in the backup's records and settings wholesale.
+export async function restoreBackup(backup: Backup, mode: RestoreMode): Promise<RestoreResult> {
+  const incoming = backup.visas.map((v) => ({ ...v, notificationIds: [] }));
+  let result: RestoreResult = { added: incoming.length, skipped: 0 };
+
+  if (mode === "replace") {
+    await mutateVisas(() => incoming);
+    await mutatePassports(() => backup.passports);
+    await mutateProfiles(() => backup.profiles);
+    await restoreStoredReminderSettings(backup.settings);
+  } else {
+    await mutateProfiles((profiles) => {
+      const existing = new Set(profiles.map((p) => p.id));
+      return [...profiles, ...backup.profiles.filter((p) => !existing.has(p.id))];
+    });
+    await mutatePassports((passports) => {
+      const existing = new Set(passports.map((p) => p.id));
+      return [...passports, ...backup.passports.filter((p) => !existing.has(p.id))];
+    });
+    await mutateVisas((visas) => {
+      const existing = new Set(visas.map((v) => v.id));
+      const added = incoming.filter((v) => !existing.has(v.id));
+      result = { added: added.length, skipped: incoming.length - added.length };
+      return [...visas, ...added];
+    });
+  }
+
+  // Cancels reminders for visas that are gone and schedules the restored ones
+  await reconcileReminders();
+  return result;
+}
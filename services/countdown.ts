@@ -0,0 +1,161 @@
+import { Extension, getStays, Stay, Visa } from "./storage";
+import { addDaysUTC, daysBetweenUTC } from "./dates";
+import { dayCountingFor, lastDayFromDuration, lastDayFromPrinted } from "./day-counting";
+import { endOfDayIn, todayIn, visaTimeZone } from "./timezones";
+
+/* ---------- stays ---------- */
+
+// The stay the traveller is currently in, i.e. the latest one without an exit.
+export function currentStay(v: Visa): Stay | null {
+  const stays = getStays(v);
+  const last = stays[stays.length - 1];
+  return last && !last.exitDate ? last : null;
+}
+
+// Expiry of a single stay: its own allowance, but never past the visa's validity.
+// Extensions granted during the stay then move it, in the order they were granted;
+// an extension is a new permission, so it isn't held to validUntil.
+export function stayExpiry(v: Visa, stay: Stay) {
+  const chain = extensionChain(v, stay);
+  if (chain.steps.length) {
+    return { expiry: chain.steps[chain.steps.length - 1].expiry, cappedByValidity: false };
+  }
+  return { expiry: chain.baseExpiry, cappedByValidity: chain.cappedByValidity };
+}
+
+export type ExtensionStep = {
+  extension: Extension;
+  expiry: Date; // the stay's expiry once this extension applies
+};
+
+// How a stay's expiry got where it is: the original one, then one step per extension.
+export function extensionChain(v: Visa, stay: Stay) {
+  const counting = dayCountingFor(v);
+  let baseExpiry = lastDayFromDuration(stay.entryDate, v.durationDays, v.durationUnit, counting);
+  let cappedByValidity = false;
+  if (v.validUntil) {
+    const validity = lastDayFromPrinted(v.validUntil, counting);
+    if (validity < baseExpiry) {
+      baseExpiry = validity;
+      cappedByValidity = true;
+    }
+  }
+
+  const steps: ExtensionStep[] = [];
+  let expiry = baseExpiry;
+  for (const extension of extensionsForStay(v, stay)) {
+    expiry = extension.newEndDate
+      ? lastDayFromPrinted(extension.newEndDate, counting)
+      : addDaysUTC(expiry.toISOString().slice(0, 10), extension.extraDays ?? 0);
+    steps.push({ extension, expiry });
+  }
+  return { baseExpiry, cappedByValidity, steps };
+}
+
+// Extensions granted between the stay's entry and its exit (or now, if still open)
+export function extensionsForStay(v: Visa, stay: Stay): Extension[] {
+  return (v.extensions ?? []).filter(
+    (e) => e.grantedDate >= stay.entryDate && (!stay.exitDate || e.grantedDate <= stay.exitDate)
+  );
+}
+
+// Last day of a stay for counting days of presence: its exit, or its expiry once
+// that has passed, since staying on past it would be an overstay nobody logged.
+// Undefined while the stay is still open.
+export function stayEndDate(v: Visa, stay: Stay, today: string): string | undefined {
+  if (stay.exitDate) return stay.exitDate;
+  const expiry = stayExpiry(v, stay).expiry.toISOString().slice(0, 10);
+  return expiry < today ? expiry : undefined;
+}
+
+// A visa that is one open stay past its expiry, with that stay closed on its
+// last legal day. For records nobody has confirmed as still in the country:
+// ones from before exits could be logged, and imported rows without an exit.
+// Anything else comes back unchanged.
+export function assumeLeftAtExpiry(v: Visa, now = new Date()): Visa {
+  if (v.stays?.length || v.departedOn) return v;
+  const stay = { entryDate: v.entryDate };
+  const expiry = stayExpiry(v, stay).expiry.toISOString().slice(0, 10);
+  if (expiry >= todayIn(visaTimeZone(v), now)) return v;
+  return { ...v, stays: [{ ...stay, exitDate: expiry }] };
+}
+
+/* ---------- countdown ---------- */
+
+export type Countdown = {
+  expiry: Date;
+  endsAt: Date;               // when the expiry day is over, on the visa's clock
+  daysRemaining: number;
+  inCountry: boolean;         // false when every logged stay has an exit
+  cappedByValidity: boolean;  // expiry was cut short by validUntil
+  extended: boolean;          // an extension moved the expiry
+};
+
+// Days are counted on the visa's own clock, so "today" is the destination's date.
+export function computeCountdown(v: Visa, now = new Date()): Countdown {
+  const timeZone = visaTimeZone(v);
+  const today = addDaysUTC(todayIn(timeZone, now), 0);
+  const endOf = (expiry: Date) => endOfDayIn(expiry.toISOString().slice(0, 10), timeZone);
+  const open = currentStay(v);
+
+  // Outside the country, count down to the end of the visa's validity instead
+  if (!open) {
+    const stays = getStays(v);
+    const last = stays[stays.length - 1];
+    const expiry = v.validUntil
+      ? lastDayFromPrinted(v.validUntil, dayCountingFor(v))
+      : stayExpiry(v, last).expiry;
+    return {
+      expiry,
+      endsAt: endOf(expiry),
+      daysRemaining: daysBetweenUTC(today, expiry),
+      inCountry: false,
+      cappedByValidity: false,
+      extended: false,
+    };
+  }
+
+  const { expiry, cappedByValidity } = stayExpiry(v, open);
+  return {
+    expiry,
+    endsAt: endOf(expiry),
+    daysRemaining: daysBetweenUTC(today, expiry),
+    inCountry: true,
+    cappedByValidity,
+    extended: extensionsForStay(v, open).length > 0,
+  };
+}
+
+export type VisaStatus = "overstay" | "expired" | "urgent" | "warning" | "safe";
+
+// Thresholds behind the status badge on the home screen. Past expiry it is an
+// overstay while the traveller is still in the country.
+export function visaStatus(daysRemaining: number, inCountry = false): VisaStatus {
+  if (daysRemaining < 0) return inCountry ? "overstay" : "expired";
+  if (daysRemaining <= 6) return "urgent";
+  if (daysRemaining <= 14) return "warning";
+  return "safe";
+}
+
+/* ---------- departure ---------- */
+
+export type Departure = {
+  date: string;             // YYYY-MM-DD the traveller left
+  expiry: string;           // YYYY-MM-DD the last stay was allowed until
+  daysBeforeExpiry: number; // negative when they left late
+  onTime: boolean;
+};
+
+// How the last stay ended, for visas marked as departed.
+export function departure(v: Visa): Departure | null {
+  if (!v.departedOn) return null;
+  const stays = getStays(v);
+  const { expiry } = stayExpiry(v, stays[stays.length - 1]);
+  const daysBeforeExpiry = daysBetweenUTC(addDaysUTC(v.departedOn, 0), expiry);
+  return {
+    date: v.departedOn,
+    expiry: expiry.toISOString().slice(0, 10),
+    daysBeforeExpiry,
+    onTime: daysBeforeExpiry >= 0,
+  };
+}
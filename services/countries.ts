@@ -0,0 +1,334 @@
+// Offline ISO 3166-1 alpha-2 list, so the picker and the cards work without a
+// network. Regions follow the UN geoscheme continents. XK (Kosovo) isn't
+// assigned by ISO but is the code every issuing authority uses.
+
+export type Region = "Africa" | "Americas" | "Antarctica" | "Asia" | "Europe" | "Oceania";
+
+export type Zone = "Schengen" | "EU";
+
+export type Country = {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  region: Region;
+};
+
+export const COUNTRIES: Country[] = [
+  { code: "AD", name: "Andorra", region: "Europe" },
+  { code: "AE", name: "United Arab Emirates", region: "Asia" },
+  { code: "AF", name: "Afghanistan", region: "Asia" },
+  { code: "AG", name: "Antigua and Barbuda", region: "Americas" },
+  { code: "AI", name: "Anguilla", region: "Americas" },
+  { code: "AL", name: "Albania", region: "Europe" },
+  { code: "AM", name: "Armenia", region: "Asia" },
+  { code: "AO", name: "Angola", region: "Africa" },
+  { code: "AQ", name: "Antarctica", region: "Antarctica" },
+  { code: "AR", name: "Argentina", region: "Americas" },
+  { code: "AS", name: "American Samoa", region: "Oceania" },
+  { code: "AT", name: "Austria", region: "Europe" },
+  { code: "AU", name: "Australia", region: "Oceania" },
+  { code: "AW", name: "Aruba", region: "Americas" },
+  { code: "AX", name: "Åland Islands", region: "Europe" },
+  { code: "AZ", name: "Azerbaijan", region: "Asia" },
+  { code: "BA", name: "Bosnia and Herzegovina", region: "Europe" },
+  { code: "BB", name: "Barbados", region: "Americas" },
+  { code: "BD", name: "Bangladesh", region: "Asia" },
+  { code: "BE", name: "Belgium", region: "Europe" },
+  { code: "BF", name: "Burkina Faso", region: "Africa" },
+  { code: "BG", name: "Bulgaria", region: "Europe" },
+  { code: "BH", name: "Bahrain", region: "Asia" },
+  { code: "BI", name: "Burundi", region: "Africa" },
+  { code: "BJ", name: "Benin", region: "Africa" },
+  { code: "BL", name: "Saint Barthélemy", region: "Americas" },
+  { code: "BM", name: "Bermuda", region: "Americas" },
+  { code: "BN", name: "Brunei", region: "Asia" },
+  { code: "BO", name: "Bolivia", region: "Americas" },
+  { code: "BQ", name: "Caribbean Netherlands", region: "Americas" },
+  { code: "BR", name: "Brazil", region: "Americas" },
+  { code: "BS", name: "Bahamas", region: "Americas" },
+  { code: "BT", name: "Bhutan", region: "Asia" },
+  { code: "BV", name: "Bouvet Island", region: "Antarctica" },
+  { code: "BW", name: "Botswana", region: "Africa" },
+  { code: "BY", name: "Belarus", region: "Europe" },
+  { code: "BZ", name: "Belize", region: "Americas" },
+  { code: "CA", name: "Canada", region: "Americas" },
+  { code: "CC", name: "Cocos (Keeling) Islands", region: "Oceania" },
+  { code: "CD", name: "DR Congo", region: "Africa" },
+  { code: "CF", name: "Central African Republic", region: "Africa" },
+  { code: "CG", name: "Republic of the Congo", region: "Africa" },
+  { code: "CH", name: "Switzerland", region: "Europe" },
+  { code: "CI", name: "Côte d'Ivoire", region: "Africa" },
+  { code: "CK", name: "Cook Islands", region: "Oceania" },
+  { code: "CL", name: "Chile", region: "Americas" },
+  { code: "CM", name: "Cameroon", region: "Africa" },
+  { code: "CN", name: "China", region: "Asia" },
+  { code: "CO", name: "Colombia", region: "Americas" },
+  { code: "CR", name: "Costa Rica", region: "Americas" },
+  { code: "CU", name: "Cuba", region: "Americas" },
+  { code: "CV", name: "Cabo Verde", region: "Africa" },
+  { code: "CW", name: "Curaçao", region: "Americas" },
+  { code: "CX", name: "Christmas Island", region: "Oceania" },
+  { code: "CY", name: "Cyprus", region: "Asia" },
+  { code: "CZ", name: "Czechia", region: "Europe" },
+  { code: "DE", name: "Germany", region: "Europe" },
+  { code: "DJ", name: "Djibouti", region: "Africa" },
+  { code: "DK", name: "Denmark", region: "Europe" },
+  { code: "DM", name: "Dominica", region: "Americas" },
+  { code: "DO", name: "Dominican Republic", region: "Americas" },
+  { code: "DZ", name: "Algeria", region: "Africa" },
+  { code: "EC", name: "Ecuador", region: "Americas" },
+  { code: "EE", name: "Estonia", region: "Europe" },
+  { code: "EG", name: "Egypt", region: "Africa" },
+  { code: "EH", name: "Western Sahara", region: "Africa" },
+  { code: "ER", name: "Eritrea", region: "Africa" },
+  { code: "ES", name: "Spain", region: "Europe" },
+  { code: "ET", name: "Ethiopia", region: "Africa" },
+  { code: "FI", name: "Finland", region: "Europe" },
+  { code: "FJ", name: "Fiji", region: "Oceania" },
+  { code: "FK", name: "Falkland Islands", region: "Americas" },
+  { code: "FM", name: "Micronesia", region: "Oceania" },
+  { code: "FO", name: "Faroe Islands", region: "Europe" },
+  { code: "FR", name: "France", region: "Europe" },
+  { code: "GA", name: "Gabon", region: "Africa" },
+  { code: "GB", name: "United Kingdom", region: "Europe" },
+  { code: "GD", name: "Grenada", region: "Americas" },
+  { code: "GE", name: "Georgia", region: "Asia" },
+  { code: "GF", name: "French Guiana", region: "Americas" },
+  { code: "GG", name: "Guernsey", region: "Europe" },
+  { code: "GH", name: "Ghana", region: "Africa" },
+  { code: "GI", name: "Gibraltar", region: "Europe" },
+  { code: "GL", name: "Greenland", region: "Americas" },
+  { code: "GM", name: "Gambia", region: "Africa" },
+  { code: "GN", name: "Guinea", region: "Africa" },
+  { code: "GP", name: "Guadeloupe", region: "Americas" },
+  { code: "GQ", name: "Equatorial Guinea", region: "Africa" },
+  { code: "GR", name: "Greece", region: "Europe" },
+  { code: "GS", name: "South Georgia and the South Sandwich Islands", region: "Americas" },
+  { code: "GT", name: "Guatemala", region: "Americas" },
+  { code: "GU", name: "Guam", region: "Oceania" },
+  { code: "GW", name: "Guinea-Bissau", region: "Africa" },
+  { code: "GY", name: "Guyana", region: "Americas" },
+  { code: "HK", name: "Hong Kong", region: "Asia" },
+  { code: "HM", name: "Heard Island and McDonald Islands", region: "Oceania" },
+  { code: "HN", name: "Honduras", region: "Americas" },
+  { code: "HR", name: "Croatia", region: "Europe" },
+  { code: "HT", name: "Haiti", region: "Americas" },
+  { code: "HU", name: "Hungary", region: "Europe" },
+  { code: "ID", name: "Indonesia", region: "Asia" },
+  { code: "IE", name: "Ireland", region: "Europe" },
+  { code: "IL", name: "Israel", region: "Asia" },
+  { code: "IM", name: "Isle of Man", region: "Europe" },
+  { code: "IN", name: "India", region: "Asia" },
+  { code: "IO", name: "British Indian Ocean Territory", region: "Africa" },
+  { code: "IQ", name: "Iraq", region: "Asia" },
+  { code: "IR", name: "Iran", region: "Asia" },
+  { code: "IS", name: "Iceland", region: "Europe" },
+  { code: "IT", name: "Italy", region: "Europe" },
+  { code: "JE", name: "Jersey", region: "Europe" },
+  { code: "JM", name: "Jamaica", region: "Americas" },
+  { code: "JO", name: "Jordan", region: "Asia" },
+  { code: "JP", name: "Japan", region: "Asia" },
+  { code: "KE", name: "Kenya", region: "Africa" },
+  { code: "KG", name: "Kyrgyzstan", region: "Asia" },
+  { code: "KH", name: "Cambodia", region: "Asia" },
+  { code: "KI", name: "Kiribati", region: "Oceania" },
+  { code: "KM", name: "Comoros", region: "Africa" },
+  { code: "KN", name: "Saint Kitts and Nevis", region: "Americas" },
+  { code: "KP", name: "North Korea", region: "Asia" },
+  { code: "KR", name: "South Korea", region: "Asia" },
+  { code: "KW", name: "Kuwait", region: "Asia" },
+  { code: "KY", name: "Cayman Islands", region: "Americas" },
+  { code: "KZ", name: "Kazakhstan", region: "Asia" },
+  { code: "LA", name: "Laos", region: "Asia" },
+  { code: "LB", name: "Lebanon", region: "Asia" },
+  { code: "LC", name: "Saint Lucia", region: "Americas" },
+  { code: "LI", name: "Liechtenstein", region: "Europe" },
+  { code: "LK", name: "Sri Lanka", region: "Asia" },
+  { code: "LR", name: "Liberia", region: "Africa" },
+  { code: "LS", name: "Lesotho", region: "Africa" },
+  { code: "LT", name: "Lithuania", region: "Europe" },
+  { code: "LU", name: "Luxembourg", region: "Europe" },
+  { code: "LV", name: "Latvia", region: "Europe" },
+  { code: "LY", name: "Libya", region: "Africa" },
+  { code: "MA", name: "Morocco", region: "Africa" },
+  { code: "MC", name: "Monaco", region: "Europe" },
+  { code: "MD", name: "Moldova", region: "Europe" },
+  { code: "ME", name: "Montenegro", region: "Europe" },
+  { code: "MF", name: "Saint Martin", region: "Americas" },
+  { code: "MG", name: "Madagascar", region: "Africa" },
+  { code: "MH", name: "Marshall Islands", region: "Oceania" },
+  { code: "MK", name: "North Macedonia", region: "Europe" },
+  { code: "ML", name: "Mali", region: "Africa" },
+  { code: "MM", name: "Myanmar", region: "Asia" },
+  { code: "MN", name: "Mongolia", region: "Asia" },
+  { code: "MO", name: "Macao", region: "Asia" },
+  { code: "MP", name: "Northern Mariana Islands", region: "Oceania" },
+  { code: "MQ", name: "Martinique", region: "Americas" },
+  { code: "MR", name: "Mauritania", region: "Africa" },
+  { code: "MS", name: "Montserrat", region: "Americas" },
+  { code: "MT", name: "Malta", region: "Europe" },
+  { code: "MU", name: "Mauritius", region: "Africa" },
+  { code: "MV", name: "Maldives", region: "Asia" },
+  { code: "MW", name: "Malawi", region: "Africa" },
+  { code: "MX", name: "Mexico", region: "Americas" },
+  { code: "MY", name: "Malaysia", region: "Asia" },
+  { code: "MZ", name: "Mozambique", region: "Africa" },
+  { code: "NA", name: "Namibia", region: "Africa" },
+  { code: "NC", name: "New Caledonia", region: "Oceania" },
+  { code: "NE", name: "Niger", region: "Africa" },
+  { code: "NF", name: "Norfolk Island", region: "Oceania" },
+  { code: "NG", name: "Nigeria", region: "Africa" },
+  { code: "NI", name: "Nicaragua", region: "Americas" },
+  { code: "NL", name: "Netherlands", region: "Europe" },
+  { code: "NO", name: "Norway", region: "Europe" },
+  { code: "NP", name: "Nepal", region: "Asia" },
+  { code: "NR", name: "Nauru", region: "Oceania" },
+  { code: "NU", name: "Niue", region: "Oceania" },
+  { code: "NZ", name: "New Zealand", region: "Oceania" },
+  { code: "OM", name: "Oman", region: "Asia" },
+  { code: "PA", name: "Panama", region: "Americas" },
+  { code: "PE", name: "Peru", region: "Americas" },
+  { code: "PF", name: "French Polynesia", region: "Oceania" },
+  { code: "PG", name: "Papua New Guinea", region: "Oceania" },
+  { code: "PH", name: "Philippines", region: "Asia" },
+  { code: "PK", name: "Pakistan", region: "Asia" },
+  { code: "PL", name: "Poland", region: "Europe" },
+  { code: "PM", name: "Saint Pierre and Miquelon", region: "Americas" },
+  { code: "PN", name: "Pitcairn Islands", region: "Oceania" },
+  { code: "PR", name: "Puerto Rico", region: "Americas" },
+  { code: "PS", name: "Palestine", region: "Asia" },
+  { code: "PT", name: "Portugal", region: "Europe" },
+  { code: "PW", name: "Palau", region: "Oceania" },
+  { code: "PY", name: "Paraguay", region: "Americas" },
+  { code: "QA", name: "Qatar", region: "Asia" },
+  { code: "RE", name: "Réunion", region: "Africa" },
+  { code: "RO", name: "Romania", region: "Europe" },
+  { code: "RS", name: "Serbia", region: "Europe" },
+  { code: "RU", name: "Russia", region: "Europe" },
+  { code: "RW", name: "Rwanda", region: "Africa" },
+  { code: "SA", name: "Saudi Arabia", region: "Asia" },
+  { code: "SB", name: "Solomon Islands", region: "Oceania" },
+  { code: "SC", name: "Seychelles", region: "Africa" },
+  { code: "SD", name: "Sudan", region: "Africa" },
+  { code: "SE", name: "Sweden", region: "Europe" },
+  { code: "SG", name: "Singapore", region: "Asia" },
+  { code: "SH", name: "Saint Helena, Ascension and Tristan da Cunha", region: "Africa" },
+  { code: "SI", name: "Slovenia", region: "Europe" },
+  { code: "SJ", name: "Svalbard and Jan Mayen", region: "Europe" },
+  { code: "SK", name: "Slovakia", region: "Europe" },
+  { code: "SL", name: "Sierra Leone", region: "Africa" },
+  { code: "SM", name: "San Marino", region: "Europe" },
+  { code: "SN", name: "Senegal", region: "Africa" },
+  { code: "SO", name: "Somalia", region: "Africa" },
+  { code: "SR", name: "Suriname", region: "Americas" },
+  { code: "SS", name: "South Sudan", region: "Africa" },
+  { code: "ST", name: "São Tomé and Príncipe", region: "Africa" },
+  { code: "SV", name: "El Salvador", region: "Americas" },
+  { code: "SX", name: "Sint Maarten", region: "Americas" },
+  { code: "SY", name: "Syria", region: "Asia" },
+  { code: "SZ", name: "Eswatini", region: "Africa" },
+  { code: "TC", name: "Turks and Caicos Islands", region: "Americas" },
+  { code: "TD", name: "Chad", region: "Africa" },
+  { code: "TF", name: "French Southern Territories", region: "Africa" },
+  { code: "TG", name: "Togo", region: "Africa" },
+  { code: "TH", name: "Thailand", region: "Asia" },
+  { code: "TJ", name: "Tajikistan", region: "Asia" },
+  { code: "TK", name: "Tokelau", region: "Oceania" },
+  { code: "TL", name: "Timor-Leste", region: "Asia" },
+  { code: "TM", name: "Turkmenistan", region: "Asia" },
+  { code: "TN", name: "Tunisia", region: "Africa" },
+  { code: "TO", name: "Tonga", region: "Oceania" },
+  { code: "TR", name: "Türkiye", region: "Asia" },
+  { code: "TT", name: "Trinidad and Tobago", region: "Americas" },
+  { code: "TV", name: "Tuvalu", region: "Oceania" },
+  { code: "TW", name: "Taiwan", region: "Asia" },
+  { code: "TZ", name: "Tanzania", region: "Africa" },
+  { code: "UA", name: "Ukraine", region: "Europe" },
+  { code: "UG", name: "Uganda", region: "Africa" },
+  { code: "UM", name: "United States Minor Outlying Islands", region: "Oceania" },
+  { code: "US", name: "United States", region: "Americas" },
+  { code: "UY", name: "Uruguay", region: "Americas" },
+  { code: "UZ", name: "Uzbekistan", region: "Asia" },
+  { code: "VA", name: "Vatican City", region: "Europe" },
+  { code: "VC", name: "Saint Vincent and the Grenadines", region: "Americas" },
+  { code: "VE", name: "Venezuela", region: "Americas" },
+  { code: "VG", name: "British Virgin Islands", region: "Americas" },
+  { code: "VI", name: "U.S. Virgin Islands", region: "Americas" },
+  { code: "VN", name: "Vietnam", region: "Asia" },
+  { code: "VU", name: "Vanuatu", region: "Oceania" },
+  { code: "WF", name: "Wallis and Futuna", region: "Oceania" },
+  { code: "WS", name: "Samoa", region: "Oceania" },
+  { code: "XK", name: "Kosovo", region: "Europe" },
+  { code: "YE", name: "Yemen", region: "Asia" },
+  { code: "YT", name: "Mayotte", region: "Africa" },
+  { code: "ZA", name: "South Africa", region: "Africa" },
+  { code: "ZM", name: "Zambia", region: "Africa" },
+  { code: "ZW", name: "Zimbabwe", region: "Africa" },
+];
+
+export const SCHENGEN_COUNTRIES = [
+  "AT", "BE", "BG", "CH", "CZ", "DE", "DK", "EE", "ES", "FI",
+  "FR", "GR", "HR", "HU", "IS", "IT", "LI", "LT", "LU", "LV",
+  "MT", "NL", "NO", "PL", "PT", "RO", "SE", "SI", "SK",
+];
+
+export const EU_COUNTRIES = [
+  "AT", "BE", "BG", "CY", "CZ", "DE", "DK", "EE", "ES", "FI",
+  "FR", "GR", "HR", "HU", "IE", "IT", "LT", "LU", "LV", "MT",
+  "NL", "PL", "PT", "RO", "SE", "SI", "SK",
+];
+
+const BY_CODE = new Map(COUNTRIES.map((c) => [c.code, c]));
+
+export function getCountry(code: string): Country | undefined {
+  return BY_CODE.get(code.trim().toUpperCase());
+}
+
+export function isCountryCode(code: string): boolean {
+  return BY_CODE.has(code.trim().toUpperCase());
+}
+
+export function countryZones(code: string): Zone[] {
+  const cc = code.trim().toUpperCase();
+  const zones: Zone[] = [];
+  if (SCHENGEN_COUNTRIES.includes(cc)) zones.push("Schengen");
+  if (EU_COUNTRIES.includes(cc)) zones.push("EU");
+  return zones;
+}
+
+// Flags are the code spelled in regional indicator symbols: "TH" -> 🇹🇭
+export function flagEmoji(code: string): string {
+  const cc = code.trim().toUpperCase();
+  if (!/^[A-Z]{2}$/.test(cc)) return "";
+  return String.fromCodePoint(...[...cc].map((ch) => 0x1f1e6 + ch.charCodeAt(0) - 65));
+}
+
+// "🇹🇭 Thailand", or the bare code for anything not in the list
+export function countryDisplay(code: string): string {
+  const country = getCountry(code);
+  return country ? `${flagEmoji(country.code)} ${country.name}` : code.toUpperCase();
+}
+
+/* ---------- search ---------- */
+
+function fold(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// Exact code first, then names starting with the query, then the rest
+export function searchCountries(query: string): Country[] {
+  const q = fold(query.trim());
+  if (!q) return COUNTRIES;
+
+  const ranked: { country: Country; rank: number }[] = [];
+  for (const country of COUNTRIES) {
+    const name = fold(country.name);
+    let rank: number;
+    if (country.code.toLowerCase() === q) rank = 0;
+    else if (name.startsWith(q)) rank = 1;
+    else if (name.includes(q) || fold(country.region).startsWith(q)) rank = 2;
+    else if (countryZones(country.code).some((z) => z.toLowerCase() === q)) rank = 2;
+    else continue;
+    ranked.push({ country, rank });
+  }
+  return ranked.sort((a, b) => a.rank - b.rank).map((r) => r.country);
+}
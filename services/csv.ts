@@ -0,0 +1,454 @@
+import { getStays, getVisas, mutateVisas, Stay, Visa } from "./storage";
+import { assumeLeftAtExpiry, visaStatus } from "./countdown";
+import { visaCountdown } from "./schengen";
+import { validateVisaInput } from "./validation";
+import { reconcileReminders } from "./notifications";
+import { pickTextFile, shareTextFile } from "./files";
+import { DurationUnit, isValidDateYYYYMMDD, todayISO } from "./dates";
+import { todayIn, visaTimeZone } from "./timezones";
+
+export const CSV_MIME = "text/csv";
+
+/* ---------- parsing ---------- */
+
+// RFC 4180: quoted fields may contain the delimiter, quotes ("") and newlines.
+// Spreadsheets in many locales save with ";" instead of ",", so the header
+// line decides which one is used.
+export function parseCsv(text: string): string[][] {
+  const body = text.replace(/^\uFEFF/, "");
+  const firstLine = body.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === '"' && body[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && body[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Plain numbers such as negative day counts are safe as they are
+function toCsvField(value: string) {
+  const safe = FORMULA_START.test(value) && !/^-?\d+$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Undoes the quote toCsvField puts in front of formula-like text
+function fromCsvField(value: string) {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((r) => r.map(toCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/* ---------- dates ---------- */
+
+export const DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD.MM.YYYY",
+  "YYYY/MM/DD",
+] as const;
+
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+type DatePart = "y" | "m" | "d";
+
+const DATE_PATTERNS: Record<DateFormat, { re: RegExp; order: [DatePart, DatePart, DatePart] }> = {
+  "YYYY-MM-DD": { re: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: ["y", "m", "d"] },
+  "DD/MM/YYYY": { re: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ["d", "m", "y"] },
+  "MM/DD/YYYY": { re: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ["m", "d", "y"] },
+  "DD.MM.YYYY": { re: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: ["d", "m", "y"] },
+  "YYYY/MM/DD": { re: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, order: ["y", "m", "d"] },
+};
+
+// Converts a date in the given format to YYYY-MM-DD, or null if it isn't one.
+export function normalizeDate(value: string, format: DateFormat): string | null {
+  const { re, order } = DATE_PATTERNS[format];
+  const m = re.exec(value.trim());
+  if (!m) return null;
+
+  const parts = {} as Record<DatePart, string>;
+  order.forEach((k, i) => (parts[k] = m[i + 1]));
+  const iso = `${parts.y}-${parts.m.padStart(2, "0")}-${parts.d.padStart(2, "0")}`;
+  return isValidDateYYYYMMDD(iso) ? iso : null;
+}
+
+// Picks the format that reads the most values. DD/MM and MM/DD can only be
+// told apart by a value with a day above 12; without one, DD/MM wins.
+export function detectDateFormat(values: string[]): DateFormat | null {
+  const samples = values.map((v) => v.trim()).filter(Boolean);
+  let best: DateFormat | null = null;
+  let bestCount = 0;
+
+  for (const f of DATE_FORMATS) {
+    const count = samples.filter((v) => normalizeDate(v, f) !== null).length;
+    if (count > bestCount) {
+      best = f;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/* ---------- column mapping ---------- */
+
+export const CSV_FIELDS = [
+  { key: "countryCode", label: "Country code", required: true },
+  { key: "visaLabel", label: "Visa label", required: true },
+  { key: "entryDate", label: "Entry date", required: true },
+  { key: "durationDays", label: "Duration", required: true },
+  { key: "durationUnit", label: "Duration unit", required: false },
+  { key: "exitDate", label: "Exit date", required: false },
+  { key: "multiEntry", label: "Multi-entry", required: false },
+  { key: "validUntil", label: "Valid until", required: false },
+  { key: "stays", label: "Stays", required: false },
+  { key: "id", label: "Visa id", required: false },
+] as const;
+
+export type CsvField = (typeof CSV_FIELDS)[number]["key"];
+
+// Column index for each field; null when the file has no such column.
+export type ColumnMapping = Record<CsvField, number | null>;
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  countryCode: ["countrycode", "country", "cc", "iso", "code"],
+  visaLabel: ["visalabel", "label", "visa", "visatype", "type"],
+  entryDate: ["entrydate", "entry", "entered", "arrival", "arrivaldate", "start", "from"],
+  durationDays: ["durationdays", "duration", "days", "allowed", "length", "stay"],
+  durationUnit: ["durationunit", "unit", "units", "per"],
+  exitDate: ["exitdate", "exit", "departure", "departuredate", "left", "end", "to"],
+  multiEntry: ["multientry", "multi", "multiple", "entries"],
+  validUntil: ["validuntil", "validto", "validity"],
+  stays: ["stays", "staylog", "trips"],
+  id: ["id", "visaid"],
+};
+
+// Best guess from the header row, e.g. "Country Code" or "entry_date".
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((h) => h.toLowerCase().replace(/[^a-z]/g, ""));
+  const mapping = {} as ColumnMapping;
+  const used = new Set<number>();
+
+  for (const { key } of CSV_FIELDS) {
+    let found: number | null = null;
+    for (const alias of HEADER_ALIASES[key]) {
+      const idx = normalized.findIndex((h, i) => h === alias && !used.has(i));
+      if (idx !== -1) {
+        found = idx;
+        break;
+      }
+    }
+    if (found !== null) used.add(found);
+    mapping[key] = found;
+  }
+  return mapping;
+}
+
+/* ---------- import ---------- */
+
+// "d", "Day", "months", "yr" and the like
+function parseDurationUnit(raw: string): DurationUnit | null {
+  const s = raw.trim().toLowerCase();
+  if (/^(d|days?)$/.test(s)) return "days";
+  if (/^(m|mo|mos|months?)$/.test(s)) return "months";
+  if (/^(y|yr|yrs|years?)$/.test(s)) return "years";
+  return null;
+}
+
+// "yes", "No", "true", "0" and the like
+function parseYesNo(raw: string): boolean | null {
+  const s = raw.trim().toLowerCase();
+  if (/^(y|yes|true|1)$/.test(s)) return true;
+  if (/^(n|no|false|0)$/.test(s)) return false;
+  return null;
+}
+
+// The stay log as the export writes it, e.g. "2026-01-01..2026-01-20; 2026-03-01.."
+// with an open last stay. Returns a message for the user when it can't be read.
+function parseStays(raw: string, dateFormat: DateFormat): Stay[] | string {
+  const stays: Stay[] = [];
+  for (const part of raw.split(";").map((p) => p.trim()).filter(Boolean)) {
+    const [rawEntry, rawExit = "", ...rest] = part.split("..").map((p) => p.trim());
+    const entryDate = normalizeDate(rawEntry, dateFormat);
+    const exitDate = rawExit ? normalizeDate(rawExit, dateFormat) : undefined;
+    if (rest.length || !entryDate || exitDate === null) {
+      return `Stay "${part}" should read entry..exit with ${dateFormat} dates.`;
+    }
+    if (exitDate && exitDate < entryDate) return `Stay "${part}" ends before it starts.`;
+    const last = stays[stays.length - 1];
+    if (last && (!last.exitDate || entryDate < last.exitDate)) {
+      return `Stay "${part}" starts before the one before it ended.`;
+    }
+    stays.push(exitDate ? { entryDate, exitDate } : { entryDate });
+  }
+  return stays;
+}
+
+// A finished last stay means the traveller has left for good, unless a
+// multi-entry visa can still be used for another trip.
+function withDeparture(v: Visa): Visa {
+  const stays = getStays(v);
+  const exitDate = stays[stays.length - 1].exitDate;
+  if (!exitDate) return v;
+  if (v.multiEntry && (!v.validUntil || v.validUntil >= todayIn(visaTimeZone(v)))) return v;
+  return { ...v, departedOn: exitDate };
+}
+
+export type RowError = {
+  row: number; // 1-based row number, counting the header row
+  message: string;
+};
+
+export type CsvImportPreview = {
+  visas: Visa[];
+  errors: RowError[];
+  duplicates: RowError[]; // rows whose id is already on this device or earlier in the file
+};
+
+// Validates every data row with the same rules as the add form. Bad rows are
+// reported and left out; they never stop the rest of the file. With an id
+// column, such as in the app's own export, rows for visas already in
+// `existingIds` are left out too, so importing an export twice adds nothing.
+// A stays column, as in the export, is taken as logged: open stays stay open.
+export function previewCsvImport(
+  rows: string[][],
+  mapping: ColumnMapping,
+  dateFormat: DateFormat,
+  existingIds: string[] = []
+): CsvImportPreview {
+  const missing = CSV_FIELDS.filter((f) => f.required && mapping[f.key] === null);
+  if (missing.length) {
+    return {
+      visas: [],
+      errors: [
+        { row: 1, message: `Choose a column for: ${missing.map((f) => f.label).join(", ")}.` },
+      ],
+      duplicates: [],
+    };
+  }
+
+  const now = Date.now();
+  const createdAt = new Date(now).toISOString();
+  const visas: Visa[] = [];
+  const errors: RowError[] = [];
+  const duplicates: RowError[] = [];
+  const seen = new Set(existingIds);
+
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    const cell = (key: CsvField) => {
+      const idx = mapping[key];
+      return idx === null ? "" : fromCsvField((cells[idx] ?? "").trim());
+    };
+
+    const id = cell("id");
+    if (id && seen.has(id)) {
+      duplicates.push({ row, message: `Visa ${id} is already on this device.` });
+      return;
+    }
+
+    const rawEntry = cell("entryDate");
+    const entryDate = normalizeDate(rawEntry, dateFormat);
+    if (!entryDate) {
+      errors.push({ row, message: `Entry date "${rawEntry}" is not a ${dateFormat} date.` });
+      return;
+    }
+
+    const rawUnit = cell("durationUnit");
+    const durationUnit = rawUnit ? parseDurationUnit(rawUnit) : "days";
+    if (!durationUnit) {
+      errors.push({ row, message: `Duration unit "${rawUnit}" should be days, months or years.` });
+      return;
+    }
+
+    const checked = validateVisaInput({
+      countryCode: cell("countryCode"),
+      visaLabel: cell("visaLabel"),
+      entryDate,
+      durationDays: cell("durationDays"),
+      durationUnit,
+    });
+    if (!checked.ok) {
+      errors.push({ row, message: `${checked.error.title}. ${checked.error.message}` });
+      return;
+    }
+
+    const rawMulti = cell("multiEntry");
+    const multiEntry = rawMulti ? parseYesNo(rawMulti) : false;
+    if (multiEntry === null) {
+      errors.push({ row, message: `Multi-entry "${rawMulti}" should be yes or no.` });
+      return;
+    }
+
+    const rawValidUntil = cell("validUntil");
+    let validUntil: string | undefined;
+    if (rawValidUntil) {
+      const normalized = normalizeDate(rawValidUntil, dateFormat);
+      if (!normalized) {
+        errors.push({
+          row,
+          message: `Valid until "${rawValidUntil}" is not a ${dateFormat} date.`,
+        });
+        return;
+      }
+      if (normalized < entryDate) {
+        errors.push({ row, message: "Valid until is before the entry date." });
+        return;
+      }
+      validUntil = normalized;
+    }
+
+    let stays: Stay[] | undefined;
+    const rawStays = cell("stays");
+    if (rawStays) {
+      const parsed = parseStays(rawStays, dateFormat);
+      if (typeof parsed === "string") {
+        errors.push({ row, message: parsed });
+        return;
+      }
+      if (parsed.length && parsed[0].entryDate < entryDate) {
+        errors.push({ row, message: "The first stay starts before the entry date." });
+        return;
+      }
+      stays = parsed.length ? parsed : undefined;
+    }
+
+    const rawExit = cell("exitDate");
+    if (rawExit && !stays) {
+      const exitDate = normalizeDate(rawExit, dateFormat);
+      if (!exitDate) {
+        errors.push({ row, message: `Exit date "${rawExit}" is not a ${dateFormat} date.` });
+        return;
+      }
+      if (exitDate < entryDate) {
+        errors.push({ row, message: "Exit date is before the entry date." });
+        return;
+      }
+      stays = [{ entryDate, exitDate }];
+    }
+
+    if (id) seen.add(id);
+    const visa: Visa = {
+      id: id || `visa_${now}_${i}`,
+      ...checked.value,
+      createdAt,
+      notificationIds: [],
+      multiEntry: multiEntry || undefined,
+      validUntil,
+      stays,
+    };
+    // Without any stay logged, a stay that has already run out is taken as finished
+    visas.push(withDeparture(stays ? visa : assumeLeftAtExpiry(visa)));
+  });
+
+  return { visas, errors, duplicates };
+}
+
+export async function pickCsv(): Promise<string[][] | null> {
+  const text = await pickTextFile([CSV_MIME, "text/comma-separated-values", "text/plain", "*/*"]);
+  if (text === null) return null;
+
+  const rows = parseCsv(text);
+  if (rows.length < 2) throw new Error("The file needs a header row and at least one data row.");
+  return rows;
+}
+
+// Returns how many were added. Visas whose id was stored since the preview
+// are left out here as well.
+export async function importCsvVisas(visas: Visa[]): Promise<number> {
+  let added = 0;
+  await mutateVisas((existing) => {
+    const ids = new Set(existing.map((v) => v.id));
+    const fresh = visas.filter((v) => !ids.has(v.id));
+    added = fresh.length;
+    return [...existing, ...fresh];
+  });
+  await reconcileReminders();
+  return added;
+}
+
+/* ---------- export ---------- */
+
+export const CSV_EXPORT_HEADERS = [
+  "id",
+  "country_code",
+  "visa_label",
+  "entry_date",
+  "duration",
+  "duration_unit",
+  "multi_entry",
+  "valid_until",
+  "stays",
+  "expiry_date",
+  "days_remaining",
+  "status",
+];
+
+export function buildVisasCsv(visas: Visa[]): string {
+  const rows = visas.map((v) => {
+    const { expiry, daysRemaining, inCountry } = visaCountdown(v, visas);
+    // e.g. "2026-01-01..2026-01-20; 2026-03-01.." with an open last stay
+    const stays = getStays(v)
+      .map((s) => `${s.entryDate}..${s.exitDate ?? ""}`)
+      .join("; ");
+    return [
+      v.id,
+      v.countryCode,
+      v.visaLabel,
+      v.entryDate,
+      String(v.durationDays),
+      v.durationUnit ?? "days",
+      v.multiEntry ? "yes" : "no",
+      v.validUntil ?? "",
+      stays,
+      expiry.toISOString().slice(0, 10),
+      String(daysRemaining),
+      v.departedOn ? "departed" : inCountry ? visaStatus(daysRemaining, true) : "not in country",
+    ];
+  });
+  return toCsv([CSV_EXPORT_HEADERS, ...rows]);
+}
+
+export async function exportVisasCsv(): Promise<void> {
+  const visas = await getVisas();
+  await shareTextFile(`overstayr-visas-${todayISO()}.csv`, CSV_MIME, buildVisasCsv(visas));
+}
@@ -0,0 +1,78 @@
+// Calendar dates are YYYY-MM-DD strings; arithmetic is done in UTC.
+
+export function addDaysUTC(dateStr: string, days: number) {
+  const d = new Date(dateStr + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d;
+}
+
+export function daysBetweenUTC(a: Date, b: Date) {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  const a0 = Date.UTC(a.getUTCFullYear(), a.getUTCMonth(), a.getUTCDate());
+  const b0 = Date.UTC(b.getUTCFullYear(), b.getUTCMonth(), b.getUTCDate());
+  return Math.floor((b0 - a0) / msPerDay);
+}
+
+export function isValidDateYYYYMMDD(s: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+  const [y, m, d] = s.split("-").map(Number);
+  const date = new Date(y, m - 1, d);
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d;
+}
+
+export function todayISO() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// The date on the phone's own calendar, which is what "today" means to
+// someone picking a date; todayISO is the UTC date and can be a day off
+export function localTodayISO(now = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Whole days since 1970-01-01, for counting days in sets and windows
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function toDayNumber(dateStr: string) {
+  return Math.floor(Date.parse(dateStr + "T00:00:00Z") / MS_PER_DAY);
+}
+
+export function fromDayNumber(n: number) {
+  return new Date(n * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/* ---------- durations ---------- */
+
+export type DurationUnit = "days" | "months" | "years";
+
+export const DURATION_UNITS: DurationUnit[] = ["days", "months", "years"];
+
+// Same day of the month, `months` later. Days that don't exist in the target
+// month fall back to its last day, so 31 Jan + 1 month is 28 (or 29) Feb.
+export function addMonthsUTC(dateStr: string, months: number) {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(y, m - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m - 1 + months, Math.min(d, lastDay)));
+}
+
+// A year is twelve calendar months, so leap days are counted when they fall inside.
+export function addDurationUTC(dateStr: string, amount: number, unit: DurationUnit = "days") {
+  if (unit === "months") return addMonthsUTC(dateStr, amount);
+  if (unit === "years") return addMonthsUTC(dateStr, amount * 12);
+  return addDaysUTC(dateStr, amount);
+}
+
+// e.g. "30 days", "3 months", "1 year"
+export function describeDuration(amount: number, unit: DurationUnit = "days") {
+  const singular = unit.slice(0, -1);
+  return `${amount} ${amount === 1 ? singular : unit}`;
+}
+
+/* ---------- month-days ---------- */
+
+// "MM-DD" without a year, e.g. the start of a tax year. Checked against a
+// common year, so 29 February, which doesn't come round every year, is refused.
+export function isValidMonthDay(s: string) {
+  return isValidDateYYYYMMDD(`2001-${s}`);
+}
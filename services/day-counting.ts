@@ -0,0 +1,88 @@
+import type { Visa } from "./storage";
+import { addDaysUTC, addDurationUTC, DurationUnit } from "./dates";
+import { countryZones, Zone } from "./countries";
+
+// How a country turns "30 days" or a printed end date into the last day the
+// traveller may legally be there. Everything else works from that last day.
+
+export type ExpiryDay =
+  | "last-legal"     // the printed date is the last day you may stay
+  | "first-illegal"; // the printed date is the first day you must be gone
+
+export type DayCounting = {
+  entryDayCounts: boolean; // the day of arrival is day 1 rather than day 0
+  expiryDay: ExpiryDay;
+};
+
+// What the app did before conventions existed, kept for countries without a rule
+export const DEFAULT_DAY_COUNTING: DayCounting = {
+  entryDayCounts: false,
+  expiryDay: "last-legal",
+};
+
+const ARRIVAL_IS_DAY_ONE: DayCounting = { entryDayCounts: true, expiryDay: "last-legal" };
+
+// Countries whose immigration guidance counts the arrival day as day 1
+export const DAY_COUNTING_RULES: Record<string, DayCounting> = {
+  ID: ARRIVAL_IS_DAY_ONE,
+  JP: ARRIVAL_IS_DAY_ONE,
+  KH: ARRIVAL_IS_DAY_ONE,
+  KR: ARRIVAL_IS_DAY_ONE,
+  LA: ARRIVAL_IS_DAY_ONE,
+  MY: ARRIVAL_IS_DAY_ONE,
+  PH: ARRIVAL_IS_DAY_ONE,
+  SG: ARRIVAL_IS_DAY_ONE,
+  TH: ARRIVAL_IS_DAY_ONE,
+  VN: ARRIVAL_IS_DAY_ONE,
+};
+
+// The Schengen Borders Code counts the day of entry as a day of stay
+const ZONE_RULES: { zone: Zone; rule: DayCounting }[] = [
+  { zone: "Schengen", rule: ARRIVAL_IS_DAY_ONE },
+];
+
+export function countryDayCounting(countryCode: string): DayCounting {
+  const cc = countryCode.trim().toUpperCase();
+  const own = DAY_COUNTING_RULES[cc];
+  if (own) return own;
+  const zones = countryZones(cc);
+  return ZONE_RULES.find((z) => zones.includes(z.zone))?.rule ?? DEFAULT_DAY_COUNTING;
+}
+
+// The visa's own setting when it has one, otherwise its country's
+export function dayCountingFor(v: Visa): DayCounting {
+  return v.dayCounting ?? countryDayCounting(v.countryCode);
+}
+
+export function sameDayCounting(a: DayCounting, b: DayCounting) {
+  return a.entryDayCounts === b.entryDayCounts && a.expiryDay === b.expiryDay;
+}
+
+/* ---------- last legal day ---------- */
+
+// From an allowance such as "30 days" or "3 months" starting on `entryDate`
+export function lastDayFromDuration(
+  entryDate: string,
+  amount: number,
+  unit: DurationUnit | undefined,
+  counting: DayCounting
+) {
+  const end = addDurationUTC(entryDate, amount, unit);
+  return counting.entryDayCounts ? addDaysUTC(end.toISOString().slice(0, 10), -1) : end;
+}
+
+// From a date printed by immigration, e.g. "valid until" or an extension's end
+export function lastDayFromPrinted(date: string, counting: DayCounting) {
+  return addDaysUTC(date, counting.expiryDay === "first-illegal" ? -1 : 0);
+}
+
+// e.g. "Arrival is day 1 • printed dates are the last legal day"
+export function describeDayCounting(counting: DayCounting) {
+  return (
+    (counting.entryDayCounts ? "Arrival is day 1" : "Arrival is day 0") +
+    " • " +
+    (counting.expiryDay === "first-illegal"
+      ? "printed dates are the first day you must be gone"
+      : "printed dates are the last legal day")
+  );
+}
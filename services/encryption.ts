@@ -0,0 +1,125 @@
+import { gcm } from "@noble/ciphers/aes";
+import { bytesToUtf8, utf8ToBytes } from "@noble/ciphers/utils";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { getRandomBytes } from "expo-crypto";
+
+// Passphrase-encrypted envelope for backup files. Only standard primitives
+// are used so a file can be decrypted offline with any crypto library:
+//
+//   key material = PBKDF2-HMAC-SHA256(passphrase, salt, iterations, 64 bytes)
+//   bytes 0-31   = AES-256-GCM key (ciphertext has the 16-byte tag appended)
+//   bytes 32-63  = check key; SHA-256 of it is stored as `check`
+//
+// The check lets a wrong passphrase be told apart from a damaged file.
+
+export const ENCRYPTED_FORMAT = "overstayr-backup-encrypted";
+export const ENCRYPTED_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 210_000;
+// Refuse files that would make key derivation run for minutes
+const MAX_PBKDF2_ITERATIONS = 5_000_000;
+
+export type EncryptedEnvelope = {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: { name: "PBKDF2-SHA256"; iterations: number; salt: string };
+  cipher: { name: "AES-256-GCM"; iv: string };
+  check: string;
+  ciphertext: string;
+};
+
+export function isEncryptedEnvelope(raw: unknown): boolean {
+  return (
+    typeof raw === "object" &&
+    raw !== null &&
+    (raw as { format?: unknown }).format === ENCRYPTED_FORMAT
+  );
+}
+
+export async function encryptText(plain: string, passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+
+  const salt = getRandomBytes(16);
+  const iv = getRandomBytes(12);
+  const { key, check } = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const envelope: EncryptedEnvelope = {
+    format: ENCRYPTED_FORMAT,
+    version: ENCRYPTED_VERSION,
+    kdf: { name: "PBKDF2-SHA256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-256-GCM", iv: toBase64(iv) },
+    check: toBase64(check),
+    ciphertext: toBase64(gcm(key, iv).encrypt(utf8ToBytes(plain))),
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+// Throws a user-facing message for a wrong passphrase, a damaged or edited
+// file, or an envelope from a newer app version.
+export async function decryptEnvelope(raw: unknown, passphrase: string): Promise<string> {
+  const e = raw as Partial<EncryptedEnvelope>;
+  if (typeof e.version !== "number" || e.version > ENCRYPTED_VERSION) {
+    throw new Error("This backup was made by a newer version of Overstayr. Update the app first.");
+  }
+
+  let salt: Uint8Array, iv: Uint8Array, check: Uint8Array, ciphertext: Uint8Array;
+  try {
+    if (e.kdf?.name !== "PBKDF2-SHA256" || e.cipher?.name !== "AES-256-GCM") throw new Error();
+    if (!Number.isInteger(e.kdf.iterations) || e.kdf.iterations < 1) throw new Error();
+    if (e.kdf.iterations > MAX_PBKDF2_ITERATIONS) throw new Error();
+    salt = fromBase64(e.kdf.salt);
+    iv = fromBase64(e.cipher.iv);
+    check = fromBase64(e.check);
+    ciphertext = fromBase64(e.ciphertext);
+  } catch {
+    throw new Error("This encrypted backup is damaged and can't be read.");
+  }
+
+  const keys = await deriveKeys(passphrase, salt, e.kdf.iterations);
+  if (!equalBytes(keys.check, check)) {
+    throw new Error("Wrong passphrase. Check it and try again.");
+  }
+
+  try {
+    return bytesToUtf8(gcm(keys.key, iv).decrypt(ciphertext));
+  } catch {
+    throw new Error(
+      "The passphrase is right but the file has been modified or damaged, so it was not restored."
+    );
+  }
+}
+
+/* ---------- helpers ---------- */
+
+async function deriveKeys(passphrase: string, salt: Uint8Array, iterations: number) {
+  const material = await pbkdf2Async(sha256, utf8ToBytes(passphrase), salt, {
+    c: iterations,
+    dkLen: 64,
+  });
+  return { key: material.slice(0, 32), check: sha256(material.slice(32)) };
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+function toBase64(bytes: Uint8Array) {
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s);
+}
+
+function fromBase64(s: unknown) {
+  if (typeof s !== "string") throw new Error("Not base64");
+  const bin = atob(s);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
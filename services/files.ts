@@ -0,0 +1,48 @@
+import { Platform } from "react-native";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import * as DocumentPicker from "expo-document-picker";
+
+// Hands a generated text file to the user: the share sheet on devices,
+// a download on web.
+export async function shareTextFile(
+  fileName: string,
+  mimeType: string,
+  text: string
+): Promise<void> {
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(text);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device.");
+  }
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+}
+
+// Lets the user choose a file and returns its contents, or null if they cancelled.
+export async function pickTextFile(mimeTypes: string[]): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets.length) return null;
+
+  const asset = result.assets[0];
+  if (Platform.OS === "web") {
+    return asset.file ? asset.file.text() : (await fetch(asset.uri)).text();
+  }
+  return new File(asset.uri).text();
+}
+
@@ -0,0 +1,42 @@
+// Bundled overstay fines, as a flat daily rate with an optional total cap.
+// These are estimates for planning only: rules change and officers have
+// discretion, so the UI always says to confirm with immigration.
+
+export type FineRule = {
+  currency: string; // ISO 4217
+  perDay: number;
+  cap?: number;     // most that is charged in total
+};
+
+export const OVERSTAY_FINES: Record<string, FineRule> = {
+  AE: { currency: "AED", perDay: 50 },
+  ID: { currency: "IDR", perDay: 1_000_000 },
+  JO: { currency: "JOD", perDay: 1.5 },
+  KH: { currency: "USD", perDay: 10 },
+  LA: { currency: "USD", perDay: 10 },
+  MM: { currency: "USD", perDay: 3 },
+  NP: { currency: "USD", perDay: 5 },
+  TH: { currency: "THB", perDay: 500, cap: 20_000 },
+};
+
+export type FineEstimate = {
+  rule: FineRule;
+  daysOver: number;
+  amount: number;
+  capped: boolean; // the cap was reached
+};
+
+// Null when there is no fine data for the country, or nothing is owed yet.
+export function estimateFine(countryCode: string, daysOver: number): FineEstimate | null {
+  const rule = OVERSTAY_FINES[countryCode.toUpperCase()];
+  if (!rule || daysOver < 1) return null;
+
+  const uncapped = rule.perDay * daysOver;
+  const capped = rule.cap !== undefined && uncapped >= rule.cap;
+  return { rule, daysOver, amount: capped ? rule.cap! : uncapped, capped };
+}
+
+// e.g. "1,500 THB"
+export function formatFine(amount: number, currency: string) {
+  return `${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })} ${currency}`;
+}
@@ -0,0 +1,172 @@
+import { getVisas, Visa } from "./storage";
+import { getReminderSettings, ReminderSettings } from "./settings";
+import { effectiveReminderSettings, expiryReminderBody } from "./notifications";
+import { visaCountdown } from "./schengen";
+import { shareTextFile } from "./files";
+import { describeDuration, todayISO } from "./dates";
+import { getProfiles, Profile, travellerName } from "./profiles";
+
+// RFC 5545 calendar of visa expiry dates. Each visa is one all-day event
+// whose UID comes from Visa.id, so importing a newer export updates the
+// existing events instead of adding duplicates. Visas don't record when they
+// were last edited, so every export is a new revision: SEQUENCE counts the
+// minutes since the epoch and LAST-MODIFIED is the export time.
+
+export const ICS_MIME = "text/calendar";
+
+const PRODID = "-//Overstayr//Visa Expiry//EN";
+const UID_DOMAIN = "overstayr.app";
+
+export function buildCalendar(
+  visas: Visa[],
+  settings: ReminderSettings,
+  now = new Date(),
+  profiles: Profile[] = []
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Overstayr",
+  ];
+
+  for (const v of visas) {
+    lines.push(...buildEvent(v, visas, settings, now, travellerName(profiles, v)));
+  }
+
+  lines.push("END:VCALENDAR");
+  // Content lines end in CRLF, including the last one
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Same expiry as the card and the reminders; `all` is every visa, for Schengen days
+function buildEvent(
+  v: Visa,
+  all: Visa[],
+  settings: ReminderSettings,
+  now: Date,
+  traveller: string | null
+): string[] {
+  const { expiry, inCountry } = visaCountdown(v, all, now);
+  const end = new Date(expiry);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  const summary = inCountry
+    ? `${v.countryCode} visa expires (${v.visaLabel})`
+    : `${v.countryCode} visa validity ends (${v.visaLabel})`;
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${v.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUTCDateTime(now)}`,
+    `LAST-MODIFIED:${formatUTCDateTime(now)}`,
+    `SEQUENCE:${Math.floor(now.getTime() / 60000)}`,
+    `DTSTART;VALUE=DATE:${formatDate(expiry)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(
+      `Entry ${v.entryDate}, ${describeDuration(v.durationDays, v.durationUnit)} allowed. ` +
+        "Exported from Overstayr."
+    )}`,
+    "TRANSP:TRANSPARENT",
+  ];
+
+  // Alarms mirror the in-app reminders, including per-visa overrides
+  const r = effectiveReminderSettings(v, settings);
+  if (settings.enabled && !r.muted && inCountry) {
+    for (const d of r.offsetsDays) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(expiryReminderBody(v.countryCode, d, traveller))}`,
+        // Relative to the event start, which is midnight on the expiry day
+        `TRIGGER:${formatDuration(-d * 24 * 60 + r.hour * 60 + r.minute)}`,
+        "END:VALARM"
+      );
+    }
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export async function exportCalendar(): Promise<void> {
+  const [visas, settings, profiles] = await Promise.all([
+    getVisas(),
+    getReminderSettings(),
+    getProfiles(),
+  ]);
+  await shareTextFile(
+    `overstayr-${todayISO()}.ics`,
+    ICS_MIME,
+    buildCalendar(visas, settings, new Date(), profiles)
+  );
+}
+
+/* ---------- helpers ---------- */
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+// 20260301
+function formatDate(d: Date) {
+  return `${d.getUTCFullYear()}${pad2(d.getUTCMonth() + 1)}${pad2(d.getUTCDate())}`;
+}
+
+// 20260301T090000Z
+function formatUTCDateTime(d: Date) {
+  return `${formatDate(d)}T${pad2(d.getUTCHours())}${pad2(d.getUTCMinutes())}${pad2(
+    d.getUTCSeconds()
+  )}Z`;
+}
+
+// RFC 5545 dur-value from signed minutes, e.g. -P6DT15H or PT9H
+function formatDuration(totalMinutes: number) {
+  const sign = totalMinutes < 0 ? "-" : "";
+  let rest = Math.abs(totalMinutes);
+  const days = Math.floor(rest / (24 * 60));
+  rest -= days * 24 * 60;
+  const hours = Math.floor(rest / 60);
+  const minutes = rest - hours * 60;
+
+  let time = "";
+  if (hours) time += `${hours}H`;
+  if (minutes) time += `${minutes}M`;
+
+  if (!days && !time) return "PT0S";
+  return `${sign}P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+function escapeText(s: string) {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines lose one to the space
+    if (size + n > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,72 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Validation } from "./schema";
+
+// A list of records stored as one JSON array under a single key, e.g. the visas.
+
+export type ListStore<T> = {
+  get: () => Promise<T[]>;
+  mutate: (change: (items: T[]) => T[]) => Promise<T[]>;
+  subscribe: (listener: (items: T[]) => void) => () => void;
+  exclusive: <R>(task: () => Promise<R>) => Promise<R>;
+};
+
+// `withDefaults` adds records that are always there, stored or not.
+export function createListStore<T>(
+  key: string,
+  validate: (raw: unknown) => Validation<T>,
+  withDefaults: (stored: T[]) => T[] = (stored) => stored
+): ListStore<T> {
+  const listeners = new Set<(items: T[]) => void>();
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  // Invalid records are skipped here; runMigrations moves them to quarantine at startup.
+  async function get(): Promise<T[]> {
+    const raw = await AsyncStorage.getItem(key);
+    let parsed: unknown = [];
+    if (raw) {
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        parsed = [];
+      }
+    }
+    const stored = Array.isArray(parsed)
+      ? parsed.flatMap((x) => {
+          const r = validate(x);
+          return r.ok ? [r.value] : [];
+        })
+      : [];
+    return withDefaults(stored);
+  }
+
+  // Every change to the list goes through here. Changes run one at a time, each
+  // reading the result of the previous one, so overlapping calls can't lose data.
+  // If `change` throws, nothing is written and the error reaches the caller.
+  function mutate(change: (items: T[]) => T[]): Promise<T[]> {
+    return exclusive(async () => {
+      const next = change(await get());
+      await AsyncStorage.setItem(key, JSON.stringify(next));
+      listeners.forEach((l) => l(next));
+      return next;
+    });
+  }
+
+  // Runs `task` in the write queue: after every earlier change, and before any
+  // later one. For checks that must still hold when something else is written.
+  // `task` must not call `mutate` on this store, or it waits for itself.
+  function exclusive<R>(task: () => Promise<R>): Promise<R> {
+    const result = writeQueue.then(task, task);
+    writeQueue = result.catch(() => {});
+    return result;
+  }
+
+  // Called with the full list after every successful write. Returns an unsubscribe function.
+  function subscribe(listener: (items: T[]) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  return { get, mutate, subscribe, exclusive };
+}
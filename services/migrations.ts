@@ -0,0 +1,225 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { VISAS_KEY } from "./storage";
+import { SETTINGS_KEYS } from "./settings";
+import { PASSPORTS_KEY } from "./passports";
+import { PROFILES_KEY } from "./profiles";
+import { assumeLeftAtExpiry } from "./countdown";
+import {
+  validatePassport,
+  validateProfile,
+  validateSettingString,
+  validateVisa,
+  Validation,
+} from "./schema";
+
+const KEY_SCHEMA_VERSION = "schema_version";
+const KEY_QUARANTINE = "quarantine";
+
+// A step from version - 1 to version. Each hook rewrites raw stored data and
+// must cope with anything, since nothing has been validated yet.
+type Migration = {
+  version: number;
+  description: string;
+  visa?: (raw: unknown) => unknown;
+  settings?: (values: SettingValues) => SettingValues;
+};
+
+// Raw setting strings keyed by storage key; null means the key is unset.
+type SettingValues = Record<string, string | null>;
+
+// Ordered oldest first. Append new steps; never edit or reorder shipped ones.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Normalise records written before the schema was versioned",
+    visa: (raw) => {
+      if (typeof raw !== "object" || raw === null) return raw;
+      const v: Record<string, unknown> = { ...raw };
+      if (typeof v.countryCode === "string") v.countryCode = v.countryCode.trim().toUpperCase();
+      if (typeof v.visaLabel === "string") v.visaLabel = v.visaLabel.trim();
+      if (typeof v.durationDays === "string" && v.durationDays.trim() !== "") {
+        v.durationDays = Number(v.durationDays);
+      }
+      if (v.createdAt === undefined) v.createdAt = new Date().toISOString();
+      if (v.notificationIds === null) v.notificationIds = [];
+      return v;
+    },
+    settings: (values) => {
+      // Offsets are now kept de-duplicated and sorted, latest reminder last
+      const raw = values[SETTINGS_KEYS.reminderOffsets];
+      if (!raw) return values;
+      try {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) return values;
+        const clean = [...new Set(parsed)].sort((a, b) => b - a);
+        return { ...values, [SETTINGS_KEYS.reminderOffsets]: JSON.stringify(clean) };
+      } catch {
+        return values;
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Close expired stays recorded before exits could be logged",
+    // Such a visa is one open stay, which would now count as an overstay
+    visa: (raw) => {
+      const checked = validateVisa(raw);
+      return checked.ok ? assumeLeftAtExpiry(checked.value) : raw;
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export type QuarantinedRecord = {
+  key: string;      // storage key the value came from
+  value: unknown;   // the raw value, exactly as it was found
+  reason: string;
+  quarantinedAt: string;
+};
+
+type BadRecord = Omit<QuarantinedRecord, "quarantinedAt">;
+
+// Brings one raw visa record from an older schema version up to date.
+// Used for stored data at startup and for records restored from a backup.
+export function migrateVisaRecord(raw: unknown, from: number): unknown {
+  let record = raw;
+  for (const m of MIGRATIONS) {
+    if (m.version > from && m.visa) record = m.visa(record);
+  }
+  return record;
+}
+
+export async function getSchemaVersion(): Promise<number> {
+  const raw = await AsyncStorage.getItem(KEY_SCHEMA_VERSION);
+  const n = Number(raw);
+  return raw !== null && Number.isInteger(n) && n >= 0 ? n : 0;
+}
+
+export async function getQuarantine(): Promise<QuarantinedRecord[]> {
+  const raw = await AsyncStorage.getItem(KEY_QUARANTINE);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function quarantine(records: BadRecord[]) {
+  if (records.length === 0) return;
+  const at = new Date().toISOString();
+  const existing = await getQuarantine();
+  await AsyncStorage.setItem(
+    KEY_QUARANTINE,
+    JSON.stringify([...existing, ...records.map((r) => ({ ...r, quarantinedAt: at }))])
+  );
+}
+
+// Runs at startup before any screen reads data: applies pending migrations,
+// then validates everything. Values that can't be repaired are moved to the
+// quarantine key instead of being dropped.
+export async function runMigrations(): Promise<void> {
+  const from = await getSchemaVersion();
+  const pending = MIGRATIONS.filter((m) => m.version > from);
+  const bad: BadRecord[] = [];
+
+  /* ---------- lists ---------- */
+
+  const visas = await checkStoredList(
+    VISAS_KEY,
+    (found) => validateVisa(migrateVisaRecord(found, from)),
+    bad
+  );
+  const passports = await checkStoredList(PASSPORTS_KEY, validatePassport, bad);
+  const profiles = await checkStoredList(PROFILES_KEY, validateProfile, bad);
+
+  /* ---------- settings ---------- */
+
+  const settingKeys: string[] = Object.values(SETTINGS_KEYS);
+  const stored = await Promise.all(settingKeys.map((k) => AsyncStorage.getItem(k)));
+  const original: SettingValues = Object.fromEntries(settingKeys.map((k, i) => [k, stored[i]]));
+
+  let settings = original;
+  for (const m of pending) {
+    if (m.settings) settings = m.settings(settings);
+  }
+
+  const badSettingKeys: string[] = [];
+  const changedSettings: [string, string][] = [];
+
+  for (const key of settingKeys) {
+    const value = settings[key];
+    if (value === null || value === undefined) continue;
+    const result = validateSettingString(key, value);
+    if (!result.ok) {
+      bad.push({ key, value: original[key], reason: result.error });
+      badSettingKeys.push(key);
+    } else if (value !== original[key]) {
+      changedSettings.push([key, value]);
+    }
+  }
+
+  // Quarantine first so nothing is lost if a later write fails
+  await quarantine(bad);
+
+  // Visas are rewritten after any migration step, the other lists only when
+  // something was taken out of them
+  for (const list of [visas, passports, profiles]) {
+    const changed = bad.some((b) => b.key === list.key) || (list === visas && pending.length > 0);
+    if (list.raw !== null && changed) {
+      await AsyncStorage.setItem(list.key, JSON.stringify(list.kept));
+    }
+  }
+  // Removing a bad setting makes getReminderSettings fall back to its default
+  await Promise.all([
+    ...badSettingKeys.map((k) => AsyncStorage.removeItem(k)),
+    ...changedSettings.map(([k, v]) => AsyncStorage.setItem(k, v)),
+  ]);
+
+  if (from !== SCHEMA_VERSION) {
+    await AsyncStorage.setItem(KEY_SCHEMA_VERSION, String(SCHEMA_VERSION));
+  }
+}
+
+type StoredList = {
+  key: string;
+  raw: string | null; // as found; null when the key is unset
+  kept: unknown[];    // the records that passed `check`, as it returned them
+};
+
+// Reads the JSON list under `key` and runs `check` on every record. An
+// unreadable list, and each record `check` rejects or throws on, goes to `bad`.
+async function checkStoredList(
+  key: string,
+  check: (found: unknown) => Validation<unknown>,
+  bad: BadRecord[]
+): Promise<StoredList> {
+  const raw = await AsyncStorage.getItem(key);
+  let records: unknown[] = [];
+  if (raw !== null) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) records = parsed;
+      else bad.push({ key, value: raw, reason: "Not a list" });
+    } catch {
+      bad.push({ key, value: raw, reason: "Not valid JSON" });
+    }
+  }
+
+  const kept: unknown[] = [];
+  for (const found of records) {
+    let result: Validation<unknown>;
+    try {
+      result = check(found);
+    } catch (e: any) {
+      bad.push({ key, value: found, reason: e?.message ?? "Migration failed" });
+      continue;
+    }
+    if (result.ok) kept.push(result.value);
+    else bad.push({ key, value: found, reason: result.error });
+  }
+
+  return { key, raw, kept };
+}
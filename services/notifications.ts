@@ -1,5 +1,20 @@
 import * as Notifications from "expo-notifications";
 import { Platform } from "react-native";
+import {
+  getReminderSettings,
+  getResidencySettings,
+  ReminderSettings,
+  ResidencySettings,
+} from "./settings";
+import { getVisas, setNotificationIdsMap, Visa } from "./storage";
+import { visaCountdown } from "./schengen";
+import { estimateFine, formatFine } from "./fines";
+import { addDaysUTC, addMonthsUTC, daysBetweenUTC } from "./dates";
+import { countryTimeZone, deviceTimeZone, todayIn, visaTimeZone, zonedTime } from "./timezones";
+import { getCountry } from "./countries";
+import { RESIDENCY_THRESHOLD_DAYS, residencyOverview } from "./residency";
+import { describePassport, getPassports, Passport } from "./passports";
+import { getProfiles, Profile, profileIdOf, sameTraveller, travellerName } from "./profiles";
 
 // Show notifications even when app is foregrounded (nice for testing)
 Notifications.setNotificationHandler({
@@ -26,11 +41,12 @@ export async function ensureNotifPermission(): Promise<boolean> {
   return finalStatus === "granted";
 }
 
-// Helper: schedule a notification at local device time
+// Helper: schedule a notification for an exact moment
 export async function scheduleVisaReminder(params: {
   title: string;
   body: string;
   date: Date;
+  data?: Record<string, unknown>;
 }): Promise<string | null> {
   if (Platform.OS === "web") return null;
 
@@ -38,7 +54,7 @@ export async function scheduleVisaReminder(params: {
   if (params.date <= now) return null; // don't schedule in the past
 
   const id = await Notifications.scheduleNotificationAsync({
-    content: { title: params.title, body: params.body },
+    content: { title: params.title, body: params.body, data: params.data },
     trigger: {
       type: Notifications.SchedulableTriggerInputTypes.DATE,
       date: params.date,
@@ -52,3 +68,293 @@ export async function cancelScheduled(ids: string[]) {
   if (Platform.OS === "web") return;
   await Promise.all(ids.map((id) => Notifications.cancelScheduledNotificationAsync(id)));
 }
+
+/* ---------- reconciliation ---------- */
+
+export type DesiredReminder = {
+  key: string;     // identifies the reminder across runs; stored in content.data
+  visaId: string | null; // null for reminders not tied to one visa
+  title: string;
+  body: string;
+  date: Date;
+  overstay?: boolean; // a daily alert after expiry; the first to go over the cap
+};
+
+// A visa's own reminder override on top of the global settings.
+// `overridden` names what came from the override, for user-facing text.
+export function effectiveReminderSettings(v: Visa, settings: ReminderSettings) {
+  const o = v.reminderOverride;
+  const customTime =
+    o?.hour !== undefined && o?.minute !== undefined
+      ? { hour: o.hour, minute: o.minute }
+      : null;
+  const { hour, minute } = customTime ?? settings;
+
+  const overridden: string[] = [];
+  if (o?.offsetsDays) overridden.push("reminder days");
+  if (customTime) overridden.push("reminder time");
+
+  return {
+    muted: !!o?.muted,
+    offsetsDays: o?.offsetsDays ?? settings.offsetsDays,
+    hour,
+    minute,
+    overridden,
+  };
+}
+
+// Everything besides visas that reminders are built from
+export type ReminderSources = {
+  residency?: ResidencySettings;
+  passports?: Passport[];
+  profiles?: Profile[]; // names the traveller once there is more than one
+};
+
+// iOS keeps only the 64 soonest pending local notifications, so stay below that
+export const MAX_SCHEDULED_REMINDERS = 60;
+
+// Every reminder that should be pending right now, given all visas and settings,
+// soonest first. Over MAX_SCHEDULED_REMINDERS, daily overstay alerts give way to
+// the rest so upcoming expiries are never pushed out.
+export function desiredReminders(
+  visas: Visa[],
+  settings: ReminderSettings,
+  { residency, passports = [], profiles = [] }: ReminderSources = {},
+  now = new Date()
+): DesiredReminder[] {
+  if (!settings.enabled) return [];
+
+  // Days in a country are counted per traveller
+  const travellers = [...new Set(visas.map(profileIdOf))].map((id) =>
+    sameTraveller(visas, { profileId: id })
+  );
+
+  const upcoming = [
+    ...visas.flatMap((v) =>
+      visaReminders(v, visas, settings, now, travellerName(profiles, v))
+    ),
+    ...(residency?.remindersEnabled
+      ? travellers.flatMap((own) =>
+          residencyReminders(own, settings, residency, travellerName(profiles, own[0]))
+        )
+      : []),
+    ...passports.flatMap((p) => passportReminders(p, settings, travellerName(profiles, p))),
+  ]
+    .filter((r) => r.date > now)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  if (upcoming.length <= MAX_SCHEDULED_REMINDERS) return upcoming;
+  const kept = [
+    ...upcoming.filter((r) => !r.overstay),
+    ...upcoming.filter((r) => r.overstay),
+  ].slice(0, MAX_SCHEDULED_REMINDERS);
+  return kept.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// "Your" while the device only tracks its owner, otherwise e.g. "Maria's"
+function whose(traveller: string | null) {
+  return traveller ? `${traveller}'s` : "Your";
+}
+
+// Daily overstay alerts are only produced for this many days ahead of now, which
+// keeps the OS schedule small. Every reconcile (at least each app start) moves it along.
+const OVERSTAY_ALERT_DAYS = 14;
+
+// All reminders for a visa's current stay, including ones whose time has passed,
+// plus the upcoming daily alerts once it has expired.
+// Nothing when the traveller is outside the country or the visa is muted.
+// The expiry is the one the card shows, so Schengen visas follow the 90/180
+// rule; `all` is every stored visa for that. `traveller` names them in the
+// text; see travellerName.
+export function visaReminders(
+  v: Visa,
+  all: Visa[],
+  settings: ReminderSettings,
+  now = new Date(),
+  traveller: string | null = null
+): DesiredReminder[] {
+  const { expiry, inCountry } = visaCountdown(v, all, now);
+  if (!inCountry) return [];
+
+  const { muted, offsetsDays, hour, minute, overridden } = effectiveReminderSettings(
+    v,
+    settings
+  );
+  if (muted) return [];
+
+  // Tell the user why a reminder differs from their global settings
+  const note = overridden.length ? ` (Custom ${overridden.join(" and ")} for this visa.)` : "";
+
+  // Reminder times are on the destination's clock, wherever the phone thinks it is
+  const timeZone = visaTimeZone(v);
+  const expiryISO = expiry.toISOString().slice(0, 10);
+
+  const reminder = (daysFromExpiry: number, title: string, body: string): DesiredReminder => {
+    const day = addDaysUTC(expiryISO, daysFromExpiry).toISOString().slice(0, 10);
+    const date = zonedTime(day, hour, minute, timeZone);
+    const key = `${v.id}|${date.toISOString()}|${body}`;
+    return { key, visaId: v.id, title, body, date, overstay: daysFromExpiry > 0 };
+  };
+
+  const out = offsetsDays.map((d) =>
+    reminder(-d, "Visa reminder", expiryReminderBody(v.countryCode, d, traveller) + note)
+  );
+
+  // Overstay: one alert per day after expiry, sterner as the days add up
+  const daysSinceExpiry = daysBetweenUTC(expiry, addDaysUTC(todayIn(timeZone, now), 0));
+  const first = Math.max(1, daysSinceExpiry);
+  for (let day = first; day <= daysSinceExpiry + OVERSTAY_ALERT_DAYS; day++) {
+    out.push(reminder(day, overstayTitle(day), overstayBody(v.countryCode, day, traveller)));
+  }
+  return out;
+}
+
+// Ahead of the day a country's tax-residency threshold is reached at the pace
+// so far, on the usual reminder days and time. Each reconcile moves the date
+// along as the pace changes.
+// `visas` are one traveller's.
+export function residencyReminders(
+  visas: Visa[],
+  settings: ReminderSettings,
+  residency: ResidencySettings,
+  traveller: string | null = null
+): DesiredReminder[] {
+  const profileId = visas.length ? profileIdOf(visas[0]) : "";
+  return residencyOverview(visas, residency.taxYearStarts).flatMap((r) => {
+    if (!r.projectedDate) return [];
+    const projected = r.projectedDate;
+    const name = getCountry(r.countryCode)?.name ?? r.countryCode;
+    const body =
+      `${traveller ?? "You"} will reach ${RESIDENCY_THRESHOLD_DAYS} days in ${name} on ` +
+      `${projected} at this pace. Check whether that makes ${traveller ? "them" : "you"} ` +
+      "tax resident there.";
+    return settings.offsetsDays.map((d) => {
+      const day = addDaysUTC(projected, -d).toISOString().slice(0, 10);
+      const date = zonedTime(day, settings.hour, settings.minute, countryTimeZone(r.countryCode));
+      return {
+        key: `residency|${profileId}|${r.countryCode}|${date.toISOString()}|${body}`,
+        visaId: null,
+        title: "Tax residency",
+        body,
+        date,
+      };
+    });
+  });
+}
+
+// Months before a passport expires to remind: in time to renew, when many
+// countries start refusing entry, and the month it runs out
+export const PASSPORT_REMINDER_MONTHS = [9, 6, 1];
+
+// Passports aren't tied to a destination, so these follow the phone's clock.
+export function passportReminders(
+  p: Passport,
+  settings: ReminderSettings,
+  traveller: string | null = null
+): DesiredReminder[] {
+  const timeZone = deviceTimeZone();
+  return PASSPORT_REMINDER_MONTHS.map((months) => {
+    const day = addMonthsUTC(p.expiryDate, -months).toISOString().slice(0, 10);
+    const date = zonedTime(day, settings.hour, settings.minute, timeZone);
+    const body =
+      `${whose(traveller)} passport ${describePassport(p)} expires on ${p.expiryDate}.` +
+      (months <= 6 ? " Many countries refuse entry with less than 6 months left." : "");
+    return {
+      key: `passport|${p.id}|${date.toISOString()}|${body}`,
+      visaId: null,
+      title: months === 1 ? "Passport expires soon" : "Passport expiry",
+      body,
+      date,
+    };
+  });
+}
+
+// e.g. "Maria's VN visa expires in 3 day(s)." Calendar alarms use it too.
+export function expiryReminderBody(
+  countryCode: string,
+  daysBefore: number,
+  traveller: string | null = null
+) {
+  return daysBefore === 0
+    ? `${whose(traveller)} ${countryCode} visa expires today.`
+    : `${whose(traveller)} ${countryCode} visa expires in ${daysBefore} day(s).`;
+}
+
+function overstayTitle(daysOver: number) {
+  if (daysOver >= 30) return "Serious overstay";
+  if (daysOver >= 7) return "Overstay warning";
+  return "Visa expired";
+}
+
+function overstayBody(countryCode: string, daysOver: number, traveller: string | null) {
+  const fine = estimateFine(countryCode, daysOver);
+  const estimate = fine
+    ? ` Estimated fine so far: ${formatFine(fine.amount, fine.rule.currency)}.`
+    : "";
+  return (
+    (traveller
+      ? `${traveller} has overstayed the ${countryCode} visa by ${daysOver} day(s).`
+      : `You have overstayed your ${countryCode} visa by ${daysOver} day(s).`) +
+    estimate +
+    " Contact immigration or leave as soon as possible."
+  );
+}
+
+let reconciling: Promise<void> = Promise.resolve();
+
+// Brings the OS schedule in line with desiredReminders: cancels what is no
+// longer wanted, schedules what is missing and records the ids on each visa.
+// Runs are queued so overlapping callers never schedule the same reminder twice.
+export function reconcileReminders(): Promise<void> {
+  reconciling = reconciling.then(runReconcile, runReconcile);
+  return reconciling;
+}
+
+async function runReconcile() {
+  if (Platform.OS === "web") return;
+
+  const [visas, settings, residency, passports, profiles, perm, scheduled] = await Promise.all([
+    getVisas(),
+    getReminderSettings(),
+    getResidencySettings(),
+    getPassports(),
+    getProfiles(),
+    Notifications.getPermissionsAsync(),
+    Notifications.getAllScheduledNotificationsAsync(),
+  ]);
+
+  const desired = perm.granted
+    ? desiredReminders(visas, settings, { residency, passports, profiles })
+    : [];
+  const wanted = new Set(desired.map((r) => r.key));
+
+  // Anything without a key predates reconciliation and is replaced as well
+  const existing = new Map<string, string>();
+  const stale: string[] = [];
+  for (const n of scheduled) {
+    const key = n.content.data?.key;
+    if (typeof key === "string" && wanted.has(key) && !existing.has(key)) {
+      existing.set(key, n.identifier);
+    } else {
+      stale.push(n.identifier);
+    }
+  }
+  await cancelScheduled(stale);
+
+  const idsByVisa: Record<string, string[]> = {};
+  for (const v of visas) idsByVisa[v.id] = [];
+
+  for (const r of desired) {
+    const id =
+      existing.get(r.key) ??
+      (await scheduleVisaReminder({
+        title: r.title,
+        body: r.body,
+        date: r.date,
+        data: { key: r.key, visaId: r.visaId },
+      }));
+    if (id && r.visaId) idsByVisa[r.visaId].push(id);
+  }
+
+  await setNotificationIdsMap(idsByVisa);
+}
@@ -0,0 +1,136 @@
+import { createListStore } from "./list-store";
+import { validatePassport } from "./schema";
+import { getStays, getVisas, mutateVisas, Visa, visaStore } from "./storage";
+import { stayExpiry } from "./countdown";
+import { addMonthsUTC } from "./dates";
+import { countryDisplay, countryZones } from "./countries";
+import { profileIdOf } from "./profiles";
+
+export type Passport = {
+  id: string;
+  issuingCountry: string; // ISO 3166-1 alpha-2
+  number: string;         // stored in full, shown masked
+  issueDate: string;      // YYYY-MM-DD
+  expiryDate: string;     // YYYY-MM-DD, last day it is valid
+  createdAt: string;
+  profileId?: string;     // the traveller; missing means the default profile
+};
+
+export const PASSPORTS_KEY = "passports";
+
+export const passportStore = createListStore(PASSPORTS_KEY, validatePassport);
+
+export const getPassports = passportStore.get;
+export const mutatePassports = passportStore.mutate;
+
+export async function savePassport(p: Passport): Promise<void> {
+  await mutatePassports((passports) => [...passports, p]);
+}
+
+// It can't move to another traveller while someone else's visas are in it.
+// Checked in the visa write queue, so no visa is linked in the meantime.
+export async function updatePassport(p: Passport): Promise<void> {
+  await visaStore.exclusive(async () => {
+    const others = (await getVisas()).filter(
+      (v) => v.passportId === p.id && profileIdOf(v) !== profileIdOf(p)
+    ).length;
+    if (others) {
+      throw new Error(
+        `${others} visa(s) of another traveller are in this passport. ` +
+          "Link them to another passport first."
+      );
+    }
+    await mutatePassports((passports) => {
+      if (!passports.some((x) => x.id === p.id)) throw new Error("Passport not found.");
+      return passports.map((x) => (x.id === p.id ? p : x));
+    });
+  });
+}
+
+// Visas that were in it keep their records, just without the link.
+export async function deletePassport(id: string): Promise<void> {
+  await mutatePassports((passports) => passports.filter((p) => p.id !== id));
+  await mutateVisas((visas) =>
+    visas.map(({ passportId, ...v }) => (passportId === id ? v : { ...v, passportId }))
+  );
+}
+
+/* ---------- display ---------- */
+
+// Only the last four characters, e.g. "•••• 4567"
+export function maskPassportNumber(number: string) {
+  return number.length > 4 ? `•••• ${number.slice(-4)}` : "••••";
+}
+
+// e.g. "🇹🇭 Thailand •••• 4567"
+export function describePassport(p: Passport) {
+  return `${countryDisplay(p.issuingCountry)} ${maskPassportNumber(p.number)}`;
+}
+
+/* ---------- validity margin ---------- */
+
+// Most countries want the passport valid for six months past the stay
+export const DEFAULT_VALIDITY_MONTHS = 6;
+
+// Countries that ask for less: zero means valid for the stay itself
+export const PASSPORT_VALIDITY_MONTHS: Record<string, number> = {
+  GB: 0,
+  IE: 0,
+};
+
+// The Schengen Borders Code asks for three months beyond the intended departure
+const SCHENGEN_VALIDITY_MONTHS = 3;
+
+export function validityMarginMonths(countryCode: string) {
+  const cc = countryCode.trim().toUpperCase();
+  const own = PASSPORT_VALIDITY_MONTHS[cc];
+  if (own !== undefined) return own;
+  return countryZones(cc).includes("Schengen")
+    ? SCHENGEN_VALIDITY_MONTHS
+    : DEFAULT_VALIDITY_MONTHS;
+}
+
+export type PassportWarning = {
+  passport: Passport;
+  marginMonths: number;
+  stayEnd: string;          // YYYY-MM-DD, the exit or the last legal day
+  lastDayAllowed: string;   // latest stay end the passport's margin covers
+  expiresDuringStay: boolean;
+};
+
+// Whether the visa's latest stay ends too close to the passport's expiry for
+// the destination's rules. Null when it's fine, unlinked or already over.
+export function passportWarning(v: Visa, passports: Passport[]): PassportWarning | null {
+  const passport = passports.find((p) => p.id === v.passportId);
+  if (!passport || v.departedOn) return null;
+
+  const stays = getStays(v);
+  const last = stays[stays.length - 1];
+  const stayEnd = last.exitDate ?? stayExpiry(v, last).expiry.toISOString().slice(0, 10);
+
+  const marginMonths = validityMarginMonths(v.countryCode);
+  const lastDayAllowed = addMonthsUTC(passport.expiryDate, -marginMonths)
+    .toISOString()
+    .slice(0, 10);
+  if (stayEnd <= lastDayAllowed) return null;
+
+  return {
+    passport,
+    marginMonths,
+    stayEnd,
+    lastDayAllowed,
+    expiresDuringStay: passport.expiryDate < stayEnd,
+  };
+}
+
+// e.g. "Passport must be valid 6 months past 2026-09-01; it expires 2026-12-31."
+export function describePassportWarning(w: PassportWarning) {
+  if (w.expiresDuringStay) {
+    return `Passport expires ${w.passport.expiryDate}, before this stay ends on ${w.stayEnd}.`;
+  }
+  const margin = w.marginMonths === 1 ? "1 month" : `${w.marginMonths} months`;
+  return (
+    `Passport must be valid ${margin} past ${w.stayEnd}; ` +
+    `it expires ${w.passport.expiryDate}.`
+  );
+}
@@ -0,0 +1,102 @@
+import { createListStore } from "./list-store";
+import { validateProfile } from "./schema";
+import { getVisas, visaStore } from "./storage";
+import { getPassports, passportStore } from "./passports";
+
+// A traveller whose visas and passports are tracked on this device. Records
+// without a profileId belong to the default profile, the device's owner, so
+// data from before profiles existed needs no migration.
+
+export type Profile = {
+  id: string;
+  name: string;
+  nationality?: string; // ISO 3166-1 alpha-2
+  color: string;        // one of PROFILE_COLORS
+  createdAt: string;
+};
+
+export const PROFILES_KEY = "profiles";
+
+export const DEFAULT_PROFILE_ID = "me";
+
+export const PROFILE_COLORS = [
+  "#0F3A5F",
+  "#2E86DE",
+  "#16A085",
+  "#8E44AD",
+  "#D35400",
+  "#C0392B",
+  "#B7950B",
+  "#5D6D7E",
+];
+
+export const MAX_PROFILE_NAME = 40;
+
+const DEFAULT_PROFILE: Profile = {
+  id: DEFAULT_PROFILE_ID,
+  name: "Me",
+  color: PROFILE_COLORS[0],
+  createdAt: "",
+};
+
+// Anything that can belong to a traveller
+type Owned = { profileId?: string };
+
+export function profileIdOf(x: Owned) {
+  return x.profileId ?? DEFAULT_PROFILE_ID;
+}
+
+// The records belonging to the same traveller as `owner`
+export function sameTraveller<T extends Owned>(records: T[], owner: Owned): T[] {
+  const id = profileIdOf(owner);
+  return records.filter((r) => profileIdOf(r) === id);
+}
+
+/* ---------- storage ---------- */
+
+// Always starts with the default profile, stored or not
+export const profileStore = createListStore(PROFILES_KEY, validateProfile, (stored) =>
+  stored.some((p) => p.id === DEFAULT_PROFILE_ID) ? stored : [DEFAULT_PROFILE, ...stored]
+);
+
+export const getProfiles = profileStore.get;
+export const mutateProfiles = profileStore.mutate;
+
+export async function saveProfile(p: Profile): Promise<void> {
+  await mutateProfiles((profiles) => [...profiles, p]);
+}
+
+export async function updateProfile(p: Profile): Promise<void> {
+  await mutateProfiles((profiles) => {
+    if (!profiles.some((x) => x.id === p.id)) throw new Error("Traveller not found.");
+    return profiles.map((x) => (x.id === p.id ? p : x));
+  });
+}
+
+// Only once nothing belongs to them, so no visa is left without a traveller.
+export async function deleteProfile(id: string): Promise<void> {
+  if (id === DEFAULT_PROFILE_ID) throw new Error("The main traveller can't be deleted.");
+  // Held in both write queues, so nothing is linked between the check and the delete
+  await visaStore.exclusive(() =>
+    passportStore.exclusive(async () => {
+      const [visas, passports] = await Promise.all([getVisas(), getPassports()]);
+      if ([...visas, ...passports].some((x) => profileIdOf(x) === id)) {
+        throw new Error("Move or delete this traveller's visas and passports first.");
+      }
+      await mutateProfiles((profiles) => profiles.filter((p) => p.id !== id));
+    })
+  );
+}
+
+/* ---------- display ---------- */
+
+export function findProfile(profiles: Profile[], id: string | undefined) {
+  return profiles.find((p) => p.id === (id ?? DEFAULT_PROFILE_ID)) ?? DEFAULT_PROFILE;
+}
+
+// The traveller's name for notification text, or null while the device only
+// tracks its owner, who is simply "you".
+export function travellerName(profiles: Profile[], x: Owned): string | null {
+  if (profiles.length < 2) return null;
+  return findProfile(profiles, x.profileId).name;
+}
@@ -0,0 +1,143 @@
+import type { Visa } from "./storage";
+import { presenceDays } from "./stay-caps";
+import { addDaysUTC, fromDayNumber, toDayNumber } from "./dates";
+import { countryTimeZone, todayIn } from "./timezones";
+
+// Physical presence per country and tax year, for tax residency. Many countries
+// treat 183 days in a tax year as the point where someone becomes resident;
+// like stay caps, entry and exit days both count as days present.
+
+export const RESIDENCY_THRESHOLD_DAYS = 183;
+
+// Warn once a country is this close to the threshold
+export const RESIDENCY_WARNING_DAYS = 30;
+
+// Where the tax year doesn't start on 1 January, as "MM-DD"
+export const TAX_YEAR_STARTS: Record<string, string> = {
+  AU: "07-01",
+  BD: "07-01",
+  EG: "07-01",
+  GB: "04-06",
+  HK: "04-01",
+  IN: "04-01",
+  NZ: "04-01",
+  PK: "07-01",
+  ZA: "03-01",
+};
+
+export const CALENDAR_YEAR_START = "01-01";
+
+// The user's own start date when they set one, otherwise the country's
+export function taxYearStartFor(countryCode: string, custom: Record<string, string> = {}) {
+  const cc = countryCode.trim().toUpperCase();
+  return custom[cc] ?? TAX_YEAR_STARTS[cc] ?? CALENDAR_YEAR_START;
+}
+
+/* ---------- tax years ---------- */
+
+export type TaxYear = {
+  start: string; // YYYY-MM-DD, first day
+  end: string;   // YYYY-MM-DD, last day
+};
+
+// The tax year starting on `monthDay` that contains `date`, moved `offset`
+// whole years back (negative) or forward.
+export function taxYearContaining(date: string, monthDay: string, offset = 0): TaxYear {
+  const year = Number(date.slice(0, 4));
+  const startYear = (`${year}-${monthDay}` <= date ? year : year - 1) + offset;
+  return {
+    start: `${startYear}-${monthDay}`,
+    end: addDaysUTC(`${startYear + 1}-${monthDay}`, -1).toISOString().slice(0, 10),
+  };
+}
+
+// e.g. "2026" for a calendar year, "2026/27" otherwise
+export function taxYearLabel(year: TaxYear) {
+  const first = year.start.slice(0, 4);
+  if (year.start.slice(5) === CALENDAR_YEAR_START) return first;
+  return `${first}/${year.end.slice(2, 4)}`;
+}
+
+/* ---------- status ---------- */
+
+export type ResidencyLevel = "ok" | "near" | "reached";
+
+export type CountryResidency = {
+  countryCode: string;
+  taxYear: TaxYear;
+  daysPresent: number;        // so far in that tax year
+  daysToThreshold: number;    // RESIDENCY_THRESHOLD_DAYS - daysPresent (never below 0)
+  inCountry: boolean;         // present today
+  level: ResidencyLevel;
+  projectedDate: string | null; // when the threshold is reached at the pace so far
+};
+
+// A country's presence in one tax year: the current one by default, or
+// `yearOffset` years back. Open stays count up to today, or only up to their
+// expiry once it has passed, as in the stay caps (see stayEndDate).
+export function countryResidency(
+  countryCode: string,
+  visas: Visa[],
+  taxYearStart: string,
+  yearOffset = 0,
+  today = todayIn(countryTimeZone(countryCode))
+): CountryResidency {
+  const taxYear = taxYearContaining(today, taxYearStart, yearOffset);
+  const present = presenceDays(countryCode, visas, today);
+
+  const start = toDayNumber(taxYear.start);
+  const end = toDayNumber(taxYear.end);
+  const todayN = toDayNumber(today);
+
+  let daysPresent = 0;
+  for (let d = start; d <= Math.min(end, todayN); d++) {
+    if (present.has(d)) daysPresent++;
+  }
+
+  const daysToThreshold = Math.max(0, RESIDENCY_THRESHOLD_DAYS - daysPresent);
+  const level: ResidencyLevel =
+    daysToThreshold === 0 ? "reached" : daysToThreshold <= RESIDENCY_WARNING_DAYS ? "near" : "ok";
+
+  // Pace is the share of the tax year so far spent in the country. Past years
+  // and years already over the threshold have nothing to project.
+  let projectedDate: string | null = null;
+  if (daysToThreshold > 0 && daysPresent > 0 && todayN >= start && todayN <= end) {
+    const pace = daysPresent / (todayN - start + 1);
+    const reachN = todayN + Math.ceil(daysToThreshold / pace);
+    if (reachN <= end) projectedDate = fromDayNumber(reachN);
+  }
+
+  return {
+    countryCode,
+    taxYear,
+    daysPresent,
+    daysToThreshold,
+    inCountry: present.has(todayN),
+    level,
+    projectedDate,
+  };
+}
+
+// Every country with days present in the chosen tax year, most days first.
+// `visas` should be one traveller's; `taxYearStarts` holds the user's own
+// start dates by country code.
+export function residencyOverview(
+  visas: Visa[],
+  taxYearStarts: Record<string, string> = {},
+  yearOffset = 0,
+  now = new Date()
+): CountryResidency[] {
+  const countries = Array.from(new Set(visas.map((v) => v.countryCode)));
+  return countries
+    .map((cc) =>
+      countryResidency(
+        cc,
+        visas,
+        taxYearStartFor(cc, taxYearStarts),
+        yearOffset,
+        todayIn(countryTimeZone(cc), now)
+      )
+    )
+    .filter((r) => r.daysPresent > 0)
+    .sort((a, b) => b.daysPresent - a.daysPresent || a.countryCode.localeCompare(b.countryCode));
+}
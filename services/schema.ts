@@ -0,0 +1,248 @@
+import type { Extension, ReminderOverride, Stay, Visa } from "./storage";
+import { DURATION_UNITS, isValidDateYYYYMMDD, isValidMonthDay } from "./dates";
+import { isCountryCode } from "./countries";
+import type { DayCounting } from "./day-counting";
+import type { Passport } from "./passports";
+import type { Profile } from "./profiles";
+import { MAX_OFFSET_DAYS, MIN_OFFSET_DAYS, SETTINGS_KEYS } from "./settings";
+
+// Runtime checks for what comes back out of AsyncStorage. Stored JSON is
+// never trusted: anything that fails here is kept out of the app.
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: string };
+
+function fail(error: string): { ok: false; error: string } {
+  return { ok: false, error };
+}
+
+export function isObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function isDate(x: unknown): x is string {
+  return typeof x === "string" && isValidDateYYYYMMDD(x);
+}
+
+function isIntInRange(x: unknown, min: number, max: number): x is number {
+  return typeof x === "number" && Number.isInteger(x) && x >= min && x <= max;
+}
+
+function isId(x: unknown): x is string {
+  return typeof x === "string" && x.length > 0;
+}
+
+function isOffset(x: unknown): x is number {
+  return typeof x === "number" && x >= MIN_OFFSET_DAYS && x <= MAX_OFFSET_DAYS;
+}
+
+/* ---------- visas ---------- */
+
+export function validateVisa(raw: unknown): Validation<Visa> {
+  if (!isObject(raw)) return fail("Not an object");
+
+  const {
+    id,
+    countryCode,
+    visaLabel,
+    entryDate,
+    durationDays,
+    durationUnit,
+    createdAt,
+    notificationIds,
+    multiEntry,
+    validUntil,
+    stays,
+    reminderOverride,
+    notes,
+    extensions,
+    departedOn,
+    dayCounting,
+    timeZone,
+    passportId,
+    profileId,
+  } = raw;
+
+  if (typeof id !== "string" || !id) return fail("Missing id");
+  if (typeof countryCode !== "string" || !/^[A-Z]{2}$/.test(countryCode)) {
+    return fail("Invalid countryCode");
+  }
+  if (typeof visaLabel !== "string" || !visaLabel) return fail("Missing visaLabel");
+  if (!isDate(entryDate)) return fail("Invalid entryDate");
+  if (typeof durationDays !== "number" || !(durationDays >= 1)) {
+    return fail("Invalid durationDays");
+  }
+  if (durationUnit !== undefined && !(DURATION_UNITS as unknown[]).includes(durationUnit)) {
+    return fail("Invalid durationUnit");
+  }
+  if (typeof createdAt !== "string") return fail("Missing createdAt");
+
+  if (
+    notificationIds !== undefined &&
+    !(Array.isArray(notificationIds) && notificationIds.every((x) => typeof x === "string"))
+  ) {
+    return fail("Invalid notificationIds");
+  }
+  if (multiEntry !== undefined && typeof multiEntry !== "boolean") {
+    return fail("Invalid multiEntry");
+  }
+  if (validUntil !== undefined && !isDate(validUntil)) return fail("Invalid validUntil");
+
+  if (stays !== undefined) {
+    if (!Array.isArray(stays) || !stays.every(isStay)) return fail("Invalid stays");
+  }
+  if (departedOn !== undefined && !isDate(departedOn)) return fail("Invalid departedOn");
+  if (dayCounting !== undefined && !isDayCounting(dayCounting)) {
+    return fail("Invalid dayCounting");
+  }
+  if (timeZone !== undefined && (typeof timeZone !== "string" || !timeZone)) {
+    return fail("Invalid timeZone");
+  }
+  if (passportId !== undefined && (typeof passportId !== "string" || !passportId)) {
+    return fail("Invalid passportId");
+  }
+  if (profileId !== undefined && !isId(profileId)) return fail("Invalid profileId");
+  if (reminderOverride !== undefined && !isReminderOverride(reminderOverride)) {
+    return fail("Invalid reminderOverride");
+  }
+  if (notes !== undefined && typeof notes !== "string") return fail("Invalid notes");
+  if (extensions !== undefined) {
+    if (!Array.isArray(extensions) || !extensions.every(isExtension)) {
+      return fail("Invalid extensions");
+    }
+  }
+
+  return { ok: true, value: raw as Visa };
+}
+
+function isStay(x: unknown): x is Stay {
+  return (
+    isObject(x) &&
+    isDate(x.entryDate) &&
+    (x.exitDate === undefined || isDate(x.exitDate))
+  );
+}
+
+function isExtension(x: unknown): x is Extension {
+  if (!isObject(x) || typeof x.id !== "string" || !x.id || !isDate(x.grantedDate)) {
+    return false;
+  }
+  // Exactly one way of extending
+  const byDays = x.extraDays !== undefined;
+  const byDate = x.newEndDate !== undefined;
+  if (byDays === byDate) return false;
+  if (byDays && !isIntInRange(x.extraDays, 1, Number.MAX_SAFE_INTEGER)) return false;
+  if (byDate && !isDate(x.newEndDate)) return false;
+  return x.reference === undefined || typeof x.reference === "string";
+}
+
+function isDayCounting(x: unknown): x is DayCounting {
+  return (
+    isObject(x) &&
+    typeof x.entryDayCounts === "boolean" &&
+    (x.expiryDay === "last-legal" || x.expiryDay === "first-illegal")
+  );
+}
+
+function isReminderOverride(x: unknown): x is ReminderOverride {
+  if (!isObject(x)) return false;
+  if (
+    x.offsetsDays !== undefined &&
+    !(Array.isArray(x.offsetsDays) && x.offsetsDays.every(isOffset))
+  ) {
+    return false;
+  }
+  if (x.hour !== undefined && !isIntInRange(x.hour, 0, 23)) return false;
+  if (x.minute !== undefined && !isIntInRange(x.minute, 0, 59)) return false;
+  if (x.muted !== undefined && typeof x.muted !== "boolean") return false;
+  return true;
+}
+
+/* ---------- passports ---------- */
+
+export function validatePassport(raw: unknown): Validation<Passport> {
+  if (!isObject(raw)) return fail("Not an object");
+  const { id, issuingCountry, number, issueDate, expiryDate, createdAt, profileId } = raw;
+
+  if (typeof id !== "string" || !id) return fail("Missing id");
+  if (typeof issuingCountry !== "string" || !/^[A-Z]{2}$/.test(issuingCountry)) {
+    return fail("Invalid issuingCountry");
+  }
+  if (typeof number !== "string" || !number) return fail("Missing number");
+  if (!isDate(issueDate)) return fail("Invalid issueDate");
+  if (!isDate(expiryDate)) return fail("Invalid expiryDate");
+  if (typeof createdAt !== "string") return fail("Missing createdAt");
+  if (profileId !== undefined && !isId(profileId)) return fail("Invalid profileId");
+
+  return { ok: true, value: raw as Passport };
+}
+
+/* ---------- profiles ---------- */
+
+export function validateProfile(raw: unknown): Validation<Profile> {
+  if (!isObject(raw)) return fail("Not an object");
+  const { id, name, nationality, color, createdAt } = raw;
+
+  if (!isId(id)) return fail("Missing id");
+  if (typeof name !== "string" || !name.trim()) return fail("Missing name");
+  if (
+    nationality !== undefined &&
+    (typeof nationality !== "string" || !/^[A-Z]{2}$/.test(nationality))
+  ) {
+    return fail("Invalid nationality");
+  }
+  if (typeof color !== "string" || !/^#[0-9A-Fa-f]{6}$/.test(color)) return fail("Invalid color");
+  if (typeof createdAt !== "string") return fail("Missing createdAt");
+
+  return { ok: true, value: raw as Profile };
+}
+
+/* ---------- settings ---------- */
+
+// Settings are stored as plain strings, one key each.
+export function validateSettingString(key: string, raw: string): Validation<string> {
+  const asInt = (min: number, max: number) =>
+    /^\d+$/.test(raw) && isIntInRange(Number(raw), min, max);
+
+  switch (key) {
+    case SETTINGS_KEYS.onboardingDone:
+      return raw === "1" ? { ok: true, value: raw } : fail("Expected \"1\"");
+    case SETTINGS_KEYS.notifEnabled:
+    case SETTINGS_KEYS.residencyReminders:
+      return raw === "0" || raw === "1"
+        ? { ok: true, value: raw }
+        : fail("Expected \"0\" or \"1\"");
+    case SETTINGS_KEYS.reminderHour:
+      return asInt(0, 23) ? { ok: true, value: raw } : fail("Expected an hour 0-23");
+    case SETTINGS_KEYS.reminderMinute:
+      return asInt(0, 59) ? { ok: true, value: raw } : fail("Expected a minute 0-59");
+    case SETTINGS_KEYS.reminderOffsets: {
+      try {
+        const parsed = JSON.parse(raw);
+        if (Array.isArray(parsed) && parsed.every(isOffset)) {
+          return { ok: true, value: raw };
+        }
+      } catch {
+        // fall through
+      }
+      return fail(`Expected a JSON array of days ${MIN_OFFSET_DAYS}-${MAX_OFFSET_DAYS}`);
+    }
+    case SETTINGS_KEYS.taxYearStarts: {
+      try {
+        const parsed = JSON.parse(raw);
+        if (
+          isObject(parsed) &&
+          Object.entries(parsed).every(
+            ([cc, md]) => isCountryCode(cc) && typeof md === "string" && isValidMonthDay(md)
+          )
+        ) {
+          return { ok: true, value: raw };
+        }
+      } catch {
+        // fall through
+      }
+      return fail("Expected a JSON object of country codes to MM-DD");
+    }
+    default:
+      return { ok: true, value: raw };
+  }
+}
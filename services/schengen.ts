@@ -0,0 +1,189 @@
+import { getStays, Visa } from "./storage";
+import { computeCountdown, currentStay, stayEndDate } from "./countdown";
+import { addDaysUTC, daysBetweenUTC, fromDayNumber, toDayNumber } from "./dates";
+import { endOfDayIn, todayIn, visaTimeZone } from "./timezones";
+import { SCHENGEN_COUNTRIES } from "./countries";
+import { sameTraveller } from "./profiles";
+
+// Schengen 90/180 rule: at most 90 days of presence in any rolling 180-day window.
+// Entry and exit days both count as days of presence.
+export const SCHENGEN_MAX_DAYS = 90;
+export const SCHENGEN_WINDOW_DAYS = 180;
+
+export type SchengenStay = {
+  entry: string; // YYYY-MM-DD
+  exit?: string; // YYYY-MM-DD, missing while still inside the zone
+};
+
+export type SchengenStatus = {
+  daysUsed: number;          // days used in the window ending on the reference date
+  daysLeft: number;          // SCHENGEN_MAX_DAYS - daysUsed (never below 0)
+  nextFalloff: string | null; // date the oldest counted day leaves the window
+  latestExit: string | null;  // last legal day if staying continuously from `from`
+};
+
+export function isSchengenCountry(countryCode: string): boolean {
+  return SCHENGEN_COUNTRIES.includes(countryCode.toUpperCase());
+}
+
+// Short-stay (C-type) visas allow at most 90 days. Anything longer is a national
+// long-stay visa or a residence permit, and the 90/180 rule doesn't apply to it:
+// neither to its own countdown nor to the days it adds up.
+export function followsSchengenRule(v: Visa): boolean {
+  if (!isSchengenCountry(v.countryCode)) return false;
+  const unit = v.durationUnit ?? "days";
+  if (unit === "years") return false;
+  return unit === "months" ? v.durationDays <= 3 : v.durationDays <= SCHENGEN_MAX_DAYS;
+}
+
+/* ---------- rule engine ---------- */
+
+// `today` is the reference date; open stays count up to and including it.
+// `from` is the first day of the (current or planned) stay used for latestExit.
+export function computeSchengen(
+  stays: SchengenStay[],
+  today: string,
+  from: string = today
+): SchengenStatus {
+  const todayN = toDayNumber(today);
+  const fromN = toDayNumber(from);
+
+  const present = new Set<number>();
+  for (const s of stays) {
+    const start = toDayNumber(s.entry);
+    const end = s.exit ? toDayNumber(s.exit) : todayN;
+    for (let d = start; d <= end; d++) present.add(d);
+  }
+
+  const daysUsed = countInWindow(present, todayN);
+
+  let nextFalloff: string | null = null;
+  for (let d = todayN - SCHENGEN_WINDOW_DAYS + 1; d <= todayN; d++) {
+    if (present.has(d)) {
+      nextFalloff = fromDayNumber(d + SCHENGEN_WINDOW_DAYS);
+      break;
+    }
+  }
+
+  // Walk forward assuming continuous presence until the limit is exceeded.
+  // 90 consecutive days always exhaust the allowance, so this is bounded.
+  let latestExit: string | null = null;
+  for (let d = fromN; d <= fromN + SCHENGEN_MAX_DAYS; d++) {
+    present.add(d);
+    if (countInWindow(present, d) > SCHENGEN_MAX_DAYS) break;
+    latestExit = fromDayNumber(d);
+  }
+
+  return {
+    daysUsed,
+    daysLeft: Math.max(0, SCHENGEN_MAX_DAYS - daysUsed),
+    nextFalloff,
+    latestExit,
+  };
+}
+
+// Builds the zone-wide stay history from every logged short-stay Schengen stay that
+// has started.
+// Without a recorded exit, a finished stay is assumed to have lasted until its expiry,
+// including any extensions.
+export function schengenStaysFromVisas(visas: Visa[], today: string): SchengenStay[] {
+  const todayN = toDayNumber(today);
+  const stays: SchengenStay[] = [];
+
+  for (const v of visas) {
+    if (!followsSchengenRule(v)) continue;
+
+    for (const s of getStays(v)) {
+      const entryN = toDayNumber(s.entryDate);
+      if (entryN > todayN) continue; // planned, not yet travelled
+
+      stays.push({ entry: s.entryDate, exit: stayEndDate(v, s, today) });
+    }
+  }
+
+  return stays;
+}
+
+/* ---------- countdown ---------- */
+
+// The countdown to the last day the zone-wide 90/180 rule allows.
+// Only the same traveller's visas count towards their days.
+export function computeSchengenCountdown(v: Visa, all: Visa[], now = new Date()) {
+  const timeZone = visaTimeZone(v);
+  const today = todayIn(timeZone, now);
+  const entryDate = currentStay(v)?.entryDate ?? v.entryDate;
+  const from = entryDate > today ? entryDate : today;
+  const stays = schengenStaysFromVisas(sameTraveller(all, v), today);
+  const schengen = computeSchengen(stays, today, from);
+
+  if (!schengen.latestExit) {
+    // Already over the limit, so the last legal day was `over` days ago
+    const over = Math.max(1, schengen.daysUsed - SCHENGEN_MAX_DAYS);
+    const lastDay = addDaysUTC(today, -over).toISOString().slice(0, 10);
+    return {
+      expiry: addDaysUTC(lastDay, 0),
+      endsAt: endOfDayIn(lastDay, timeZone),
+      daysRemaining: -over,
+      schengen,
+    };
+  }
+
+  const expiry = addDaysUTC(schengen.latestExit, 0);
+  const daysRemaining = daysBetweenUTC(addDaysUTC(today, 0), expiry);
+  return { expiry, endsAt: endOfDayIn(schengen.latestExit, timeZone), daysRemaining, schengen };
+}
+
+export type VisaCountdown = {
+  expiry: Date;
+  endsAt: Date; // when the expiry day is over, on the visa's clock
+  daysRemaining: number;
+  inCountry: boolean;
+  extended: boolean;
+  schengen?: SchengenStatus; // set while inside the zone
+  limitedBy: "visa" | "schengen"; // which limit the expiry comes from
+};
+
+// The countdown shown for a visa, and the one reminders and exports are built
+// from. On a short-stay visa inside the zone it is whichever comes first: the
+// visa's own expiry, with its validity date and extensions, or the last day the
+// 90/180 rule allows.
+// `all` is every stored visa, since a traveller's Schengen days add up across them.
+export function visaCountdown(v: Visa, all: Visa[], now = new Date()): VisaCountdown {
+  const naive = computeCountdown(v, now);
+  const own: VisaCountdown = {
+    expiry: naive.expiry,
+    endsAt: naive.endsAt,
+    daysRemaining: naive.daysRemaining,
+    inCountry: naive.inCountry,
+    extended: naive.extended,
+    limitedBy: "visa",
+  };
+  // Finished stays keep the plain countdown so they still show as expired
+  if (!followsSchengenRule(v) || !naive.inCountry || naive.daysRemaining < 0) {
+    return own;
+  }
+
+  const zone = computeSchengenCountdown(v, all, now);
+  if (zone.schengen.latestExit && naive.expiry <= zone.expiry) {
+    return { ...own, schengen: zone.schengen };
+  }
+  return { ...zone, inCountry: true, extended: naive.extended, limitedBy: "schengen" };
+}
+
+// e.g. "Latest legal exit (90/180 rule): 2026-10-25", for the card and detail screen
+export function describeSchengenLimit(c: VisaCountdown) {
+  if (c.limitedBy === "visa") {
+    return `Expires ${c.expiry.toISOString().slice(0, 10)}, before the 90/180 limit`;
+  }
+  return `Latest legal exit (90/180 rule): ${c.schengen?.latestExit ?? "limit exceeded"}`;
+}
+
+/* ---------- helpers ---------- */
+
+function countInWindow(present: Set<number>, end: number) {
+  let count = 0;
+  for (let d = end - SCHENGEN_WINDOW_DAYS + 1; d <= end; d++) {
+    if (present.has(d)) count++;
+  }
+  return count;
+}
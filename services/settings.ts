@@ -5,6 +5,19 @@ const KEY_NOTIF_ENABLED = "notif_enabled";
 const KEY_REMINDER_HOUR = "reminder_hour";
 const KEY_REMINDER_MIN = "reminder_min";
 const KEY_REMINDER_OFFSETS = "reminder_offsets_days"; // JSON array like [14,7,3,1]
+const KEY_RESIDENCY_REMINDERS = "residency_reminders";
+const KEY_TAX_YEAR_STARTS = "tax_year_starts"; // JSON object like {"GB":"04-06"}
+
+// Every key this module owns, for the schema validator and backups
+export const SETTINGS_KEYS = {
+  onboardingDone: KEY_ONBOARDING_DONE,
+  notifEnabled: KEY_NOTIF_ENABLED,
+  reminderHour: KEY_REMINDER_HOUR,
+  reminderMinute: KEY_REMINDER_MIN,
+  reminderOffsets: KEY_REMINDER_OFFSETS,
+  residencyReminders: KEY_RESIDENCY_REMINDERS,
+  taxYearStarts: KEY_TAX_YEAR_STARTS,
+} as const;
 
 export type ReminderSettings = {
   enabled: boolean;
@@ -13,6 +26,15 @@ export type ReminderSettings = {
   offsetsDays: number[]; // e.g. [14, 7, 3, 1]
 };
 
+export type ResidencySettings = {
+  remindersEnabled: boolean;
+  taxYearStarts: Record<string, string>; // country code -> "MM-DD", where the user changed it
+};
+
+// Allowed range for a single reminder offset, in days before expiry
+export const MIN_OFFSET_DAYS = 0;
+export const MAX_OFFSET_DAYS = 365;
+
 const DEFAULTS: ReminderSettings = {
   enabled: true,
   hour: 9,
@@ -59,7 +81,9 @@ export async function getReminderSettings(): Promise<ReminderSettings> {
     try {
       const parsed = JSON.parse(offsetsStr);
       if (Array.isArray(parsed) && parsed.every((x) => Number.isFinite(x))) {
-        offsetsDays = parsed.map((x) => Number(x)).filter((x) => x >= 0 && x <= 365);
+        offsetsDays = parsed
+          .map((x) => Number(x))
+          .filter((x) => x >= MIN_OFFSET_DAYS && x <= MAX_OFFSET_DAYS);
       }
     } catch {
       // ignore bad data
@@ -85,17 +109,87 @@ export async function setReminderTime(hour: number, minute: number): Promise<voi
 export async function setReminderOffsets(offsetsDays: number[]): Promise<void> {
   const clean = offsetsDays
     .map((x) => Number(x))
-    .filter((x) => Number.isFinite(x) && x >= 0 && x <= 365);
+    .filter((x) => Number.isFinite(x) && x >= MIN_OFFSET_DAYS && x <= MAX_OFFSET_DAYS);
 
   await AsyncStorage.setItem(KEY_REMINDER_OFFSETS, JSON.stringify(clean));
 }
 
+/* ---------- tax residency ---------- */
+
+export async function getResidencySettings(): Promise<ResidencySettings> {
+  const [enabledStr, startsStr] = await Promise.all([
+    AsyncStorage.getItem(KEY_RESIDENCY_REMINDERS),
+    AsyncStorage.getItem(KEY_TAX_YEAR_STARTS),
+  ]);
+
+  let taxYearStarts: Record<string, string> = {};
+  if (startsStr) {
+    try {
+      const parsed = JSON.parse(startsStr);
+      if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+        taxYearStarts = parsed;
+      }
+    } catch {
+      // ignore bad data
+    }
+  }
+
+  return { remindersEnabled: enabledStr !== "0", taxYearStarts };
+}
+
+export async function setResidencyReminders(enabled: boolean): Promise<void> {
+  await AsyncStorage.setItem(KEY_RESIDENCY_REMINDERS, enabled ? "1" : "0");
+}
+
+// `monthDay` is "MM-DD"; null goes back to the country's usual tax year.
+export async function setTaxYearStart(countryCode: string, monthDay: string | null): Promise<void> {
+  const { taxYearStarts } = await getResidencySettings();
+  const next = { ...taxYearStarts };
+  if (monthDay) next[countryCode] = monthDay;
+  else delete next[countryCode];
+  await AsyncStorage.setItem(KEY_TAX_YEAR_STARTS, JSON.stringify(next));
+}
+
+/* ---------- backup ---------- */
+
+const BACKUP_KEYS = [
+  KEY_NOTIF_ENABLED,
+  KEY_REMINDER_HOUR,
+  KEY_REMINDER_MIN,
+  KEY_REMINDER_OFFSETS,
+  KEY_RESIDENCY_REMINDERS,
+  KEY_TAX_YEAR_STARTS,
+];
+
+// Reminder and residency settings exactly as stored, for backups. Unset keys are omitted.
+export async function getStoredReminderSettings(): Promise<Record<string, string>> {
+  const values = await Promise.all(BACKUP_KEYS.map((k) => AsyncStorage.getItem(k)));
+  const out: Record<string, string> = {};
+  BACKUP_KEYS.forEach((k, i) => {
+    const v = values[i];
+    if (v !== null) out[k] = v;
+  });
+  return out;
+}
+
+// Replaces every reminder setting; keys missing from `values` go back to defaults.
+// Values must already be validated.
+export async function restoreStoredReminderSettings(values: Record<string, string>): Promise<void> {
+  await Promise.all(
+    BACKUP_KEYS.map((k) =>
+      values[k] !== undefined ? AsyncStorage.setItem(k, values[k]) : AsyncStorage.removeItem(k)
+    )
+  );
+}
+
 export async function resetAllSettings(): Promise<void> {
   await Promise.all([
     AsyncStorage.removeItem(KEY_NOTIF_ENABLED),
     AsyncStorage.removeItem(KEY_REMINDER_HOUR),
     AsyncStorage.removeItem(KEY_REMINDER_MIN),
     AsyncStorage.removeItem(KEY_REMINDER_OFFSETS),
+    AsyncStorage.removeItem(KEY_RESIDENCY_REMINDERS),
+    AsyncStorage.removeItem(KEY_TAX_YEAR_STARTS),
   ]);
 }
 
@@ -0,0 +1,170 @@
+import { getStays, Stay, Visa } from "./storage";
+import { stayEndDate, stayExpiry } from "./countdown";
+import { fromDayNumber, toDayNumber } from "./dates";
+import { countryTimeZone, todayIn } from "./timezones";
+import { sameTraveller } from "./profiles";
+
+// Some countries limit the total time spent there per year, however many visas
+// it was spread over. Stays are summed per country across every visa record;
+// like the Schengen rule, entry and exit days both count as days of presence.
+
+export type CapPeriod =
+  | "calendar-year" // 1 January to 31 December
+  | "rolling-year"; // any 365 consecutive days
+
+export type StayCapRule = {
+  maxDays: number;
+  period: CapPeriod;
+};
+
+export const ROLLING_YEAR_DAYS = 365;
+
+// Visa-free or tourist limits as published by each immigration authority
+export const STAY_CAPS: Record<string, StayCapRule> = {
+  BR: { maxDays: 180, period: "rolling-year" },
+  CO: { maxDays: 180, period: "calendar-year" },
+  EC: { maxDays: 90, period: "rolling-year" },
+  PE: { maxDays: 183, period: "calendar-year" },
+};
+
+export function stayCapFor(countryCode: string): StayCapRule | null {
+  return STAY_CAPS[countryCode.trim().toUpperCase()] ?? null;
+}
+
+// e.g. "180 days per calendar year"
+export function describeCap(rule: StayCapRule) {
+  const per = rule.period === "calendar-year" ? "calendar year" : `${ROLLING_YEAR_DAYS} days`;
+  return `${rule.maxDays} days per ${per}`;
+}
+
+// "this year" or "in the last 365 days", after a days-used figure
+export function capPeriodLabel(rule: StayCapRule) {
+  return rule.period === "calendar-year" ? "this year" : `in the last ${ROLLING_YEAR_DAYS} days`;
+}
+
+/* ---------- counting ---------- */
+
+// Days present in the country, as day numbers. A stay without an exit counts up
+// to today, or up to its expiry when `projectOpenStays` is set, to see where it is
+// heading; once its expiry has passed it ends there (see stayEndDate).
+export function presenceDays(
+  countryCode: string,
+  visas: Visa[],
+  today: string,
+  projectOpenStays = false
+) {
+  const cc = countryCode.toUpperCase();
+  const todayN = toDayNumber(today);
+  const present = new Set<number>();
+
+  for (const v of visas) {
+    if (v.countryCode !== cc) continue;
+    for (const s of getStays(v)) {
+      const start = toDayNumber(s.entryDate);
+      const closedOn = stayEndDate(v, s, today);
+      let end: number;
+      if (closedOn) end = toDayNumber(closedOn);
+      else if (projectOpenStays) {
+        end = toDayNumber(stayExpiry(v, s).expiry.toISOString().slice(0, 10));
+      } else end = todayN;
+      for (let d = start; d <= end; d++) present.add(d);
+    }
+  }
+  return present;
+}
+
+// Days counted against the cap in the period that ends on day `end`
+function countInPeriod(present: Set<number>, end: number, rule: StayCapRule) {
+  const start =
+    rule.period === "calendar-year"
+      ? toDayNumber(`${fromDayNumber(end).slice(0, 4)}-01-01`)
+      : end - ROLLING_YEAR_DAYS + 1;
+  let count = 0;
+  for (let d = start; d <= end; d++) {
+    if (present.has(d)) count++;
+  }
+  return count;
+}
+
+// First day from `from` to `to` on which the count goes over the cap
+function firstDayOver(
+  present: Set<number>,
+  from: number,
+  to: number,
+  rule: StayCapRule
+): number | null {
+  for (let d = from; d <= to; d++) {
+    if (present.has(d) && countInPeriod(present, d, rule) > rule.maxDays) return d;
+  }
+  return null;
+}
+
+/* ---------- status ---------- */
+
+export type StayCapStatus = {
+  rule: StayCapRule;
+  daysUsed: number;             // in the period ending today
+  daysLeft: number;             // rule.maxDays - daysUsed (never below 0)
+  lastDayWithinCap: string | null; // set when staying until expiry would go over
+};
+
+// Where a country's cap stands today, or null when it has none. `visas` should
+// be one traveller's; see sameTraveller.
+export function stayCapStatus(
+  countryCode: string,
+  visas: Visa[],
+  now = new Date()
+): StayCapStatus | null {
+  const rule = stayCapFor(countryCode);
+  if (!rule) return null;
+
+  const today = todayIn(countryTimeZone(countryCode), now);
+  const todayN = toDayNumber(today);
+  const daysUsed = countInPeriod(presenceDays(countryCode, visas, today), todayN, rule);
+
+  // Staying on until each current stay expires: does that go over?
+  const projected = presenceDays(countryCode, visas, today, true);
+  const lastPlanned = Math.max(todayN, ...projected);
+  const over = firstDayOver(projected, todayN, lastPlanned, rule);
+
+  return {
+    rule,
+    daysUsed,
+    daysLeft: Math.max(0, rule.maxDays - daysUsed),
+    lastDayWithinCap: over === null ? null : fromDayNumber(over - 1),
+  };
+}
+
+export type CapBreach = {
+  rule: StayCapRule;
+  firstDayOver: string; // YYYY-MM-DD
+  lastDayWithinCap: string;
+};
+
+// Would a planned stay go over the country's cap? `visas` already include the
+// plan, as the caller would save it; `stay` is the planned stay within them.
+// Only the planning traveller's own visas count.
+// Open stays, the planned one too, are assumed to last until they expire.
+export function checkPlannedStay(
+  countryCode: string,
+  visas: Visa[],
+  visa: Visa,
+  stay: Stay
+): CapBreach | null {
+  const rule = stayCapFor(countryCode);
+  if (!rule) return null;
+
+  const today = todayIn(countryTimeZone(countryCode));
+  const present = presenceDays(countryCode, sameTraveller(visas, visa), today, true);
+  const start = toDayNumber(stay.entryDate);
+  const until = stay.exitDate ?? stayExpiry(visa, stay).expiry.toISOString().slice(0, 10);
+  const end = toDayNumber(until);
+
+  const over = firstDayOver(present, start, end, rule);
+  if (over === null) return null;
+  return {
+    rule,
+    firstDayOver: fromDayNumber(over),
+    lastDayWithinCap: fromDayNumber(over - 1),
+  };
+}
@@ -1,34 +1,176 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createListStore } from "./list-store";
+import { validateVisa } from "./schema";
+import type { DurationUnit } from "./dates";
+import type { DayCounting } from "./day-counting";
+import { todayIn, visaTimeZone } from "./timezones";
+
+export type Stay = {
+  entryDate: string;  // YYYY-MM-DD
+  exitDate?: string;  // YYYY-MM-DD, missing while still in the country
+};
+
+// An extension granted by immigration for the stay it falls in. It either adds
+// days to the stay's expiry or sets a new end date outright.
+export type Extension = {
+  id: string;
+  grantedDate: string;   // YYYY-MM-DD
+  extraDays?: number;    // exactly one of extraDays / newEndDate is set
+  newEndDate?: string;   // YYYY-MM-DD
+  reference?: string;    // e.g. the receipt or decision number
+};
+
+// Per-visa replacements for the global ReminderSettings; unset fields fall back to them.
+export type ReminderOverride = {
+  offsetsDays?: number[];
+  hour?: number;    // 0-23, set together with minute
+  minute?: number;  // 0-59
+  muted?: boolean;
+};
 
 export type Visa = {
   id: string;
   countryCode: string;
   visaLabel: string;
-  entryDate: string;
-  durationDays: number;
+  entryDate: string;     // first entry
+  durationDays: number;  // allowed stay per entry, counted in durationUnit
+  durationUnit?: DurationUnit; // missing means days
   createdAt: string;
   notificationIds?: string[];
+  multiEntry?: boolean;
+  validUntil?: string;   // YYYY-MM-DD, last day of the visa's overall validity
+  stays?: Stay[];        // oldest first; single-stay records may omit this
+  reminderOverride?: ReminderOverride;
+  notes?: string;
+  extensions?: Extension[]; // oldest first
+  departedOn?: string;      // YYYY-MM-DD; set once the traveller has left for good
+  dayCounting?: DayCounting; // missing means the country's convention
+  timeZone?: string;         // IANA name; missing means the country's main zone
+  passportId?: string;       // the Passport the visa is in
+  profileId?: string;        // the traveller; missing means the default profile
 };
 
-const KEY = "visas";
+export const VISAS_KEY = "visas";
 
-export async function getVisas(): Promise<Visa[]> {
-  const raw = await AsyncStorage.getItem(KEY);
-  return raw ? JSON.parse(raw) : [];
-}
+export const visaStore = createListStore(VISAS_KEY, validateVisa);
+
+export const getVisas = visaStore.get;
+export const mutateVisas = visaStore.mutate;
 
 export async function saveVisa(v: Visa): Promise<void> {
-  const visas = await getVisas();
-  visas.push(v);
-  await AsyncStorage.setItem(KEY, JSON.stringify(visas));
+  await mutateVisas((visas) => [...visas, v]);
+}
+
+export async function updateVisa(v: Visa): Promise<void> {
+  await mutateVisas((visas) => {
+    if (!visas.some((x) => x.id === v.id)) throw new Error("Visa not found.");
+    return visas.map((x) => (x.id === v.id ? v : x));
+  });
 }
 
 export async function clearVisas(): Promise<void> {
-  await AsyncStorage.removeItem(KEY);
+  await mutateVisas(() => []);
 }
 
 export async function deleteVisa(id: string): Promise<void> {
-  const visas = await getVisas();
-  const next = visas.filter((v) => v.id !== id);
-  await AsyncStorage.setItem(KEY, JSON.stringify(next));
+  await mutateVisas((visas) => visas.filter((v) => v.id !== id));
+}
+
+/* ---------- stay log ---------- */
+
+// Older records only have entryDate, which is treated as one open stay.
+export function getStays(v: Visa): Stay[] {
+  return v.stays?.length ? v.stays : [{ entryDate: v.entryDate }];
+}
+
+// Callers reconcile reminders afterwards so they follow the new open stay.
+export async function logEntry(id: string, entryDate: string): Promise<Visa> {
+  return updateStays(id, (stays) => {
+    const last = stays[stays.length - 1];
+    if (last && !last.exitDate) {
+      throw new Error("Log an exit for the current stay first.");
+    }
+    if (last?.exitDate && entryDate < last.exitDate) {
+      throw new Error(`Entry must be on or after the last exit (${last.exitDate}).`);
+    }
+    return [...stays, { entryDate }];
+  });
+}
+
+export async function logExit(id: string, exitDate: string): Promise<Visa> {
+  return updateStays(id, (stays) => {
+    const last = stays[stays.length - 1];
+    if (!last || last.exitDate) {
+      throw new Error("There is no open stay to close.");
+    }
+    if (exitDate < last.entryDate) {
+      throw new Error(`Exit must be on or after the entry (${last.entryDate}).`);
+    }
+    return [...stays.slice(0, -1), { ...last, exitDate }];
+  });
+}
+
+/* ---------- departure ---------- */
+
+// Closes the open stay, if any, and moves the visa to history. The caller
+// cancels its reminders; reconcileReminders leaves departed visas alone.
+// The departure can't be later than today on the visa's clock.
+export async function markDeparted(id: string, date: string, now = new Date()): Promise<Visa> {
+  return updateVisaById(id, (v) => {
+    const today = todayIn(visaTimeZone(v), now);
+    if (date > today) throw new Error(`Departure can't be after today (${today}).`);
+    const stays = getStays(v);
+    const last = stays[stays.length - 1];
+    if (date < last.entryDate) {
+      throw new Error(`Departure must be on or after the entry (${last.entryDate}).`);
+    }
+    if (last.exitDate && date < last.exitDate) {
+      throw new Error(`Departure must be on or after the last exit (${last.exitDate}).`);
+    }
+    const closed = last.exitDate ? stays : [...stays.slice(0, -1), { ...last, exitDate: date }];
+    return { ...v, stays: closed, departedOn: date, notificationIds: [] };
+  });
+}
+
+// Back to an active visa; the closed stay is kept as logged.
+export async function undoDeparture(id: string): Promise<Visa> {
+  return updateVisaById(id, ({ departedOn, ...v }) => v);
+}
+
+/* ---------- extensions ---------- */
+
+// Callers reconcile reminders afterwards so they follow the new expiry.
+export async function addExtension(id: string, extension: Extension): Promise<Visa> {
+  return updateVisaById(id, (v) => ({
+    ...v,
+    extensions: [...(v.extensions ?? []), extension].sort((a, b) =>
+      a.grantedDate.localeCompare(b.grantedDate)
+    ),
+  }));
+}
+
+export async function removeExtension(id: string, extensionId: string): Promise<Visa> {
+  return updateVisaById(id, (v) => {
+    const extensions = (v.extensions ?? []).filter((e) => e.id !== extensionId);
+    return { ...v, extensions: extensions.length ? extensions : undefined };
+  });
+}
+
+// Records the scheduled reminder ids per visa id; visas not in the map are left alone.
+export async function setNotificationIdsMap(ids: Record<string, string[]>): Promise<void> {
+  await mutateVisas((visas) =>
+    visas.map((v) => (ids[v.id] ? { ...v, notificationIds: ids[v.id] } : v))
+  );
+}
+
+async function updateStays(id: string, change: (stays: Stay[]) => Stay[]): Promise<Visa> {
+  return updateVisaById(id, (v) => ({ ...v, stays: change(getStays(v)) }));
+}
+
+async function updateVisaById(id: string, change: (v: Visa) => Visa): Promise<Visa> {
+  const next = await mutateVisas((visas) => {
+    const v = visas.find((x) => x.id === id);
+    if (!v) throw new Error("Visa not found.");
+    return visas.map((x) => (x.id === id ? change(v) : x));
+  });
+  return next.find((x) => x.id === id)!;
 }
@@ -0,0 +1,416 @@
+import type { Visa } from "./storage";
+import { addDaysUTC } from "./dates";
+
+// Each visa's calendar runs on the destination's clock, not the phone's: someone
+// in Bali with a phone still on home time must see Bali's day and get reminders
+// at Bali's 9 a.m. Zones are IANA names resolved through Intl.
+
+// Main zone per country. Places with several zones list the capital's (or the
+// most visited one); the add form offers the others from MULTI_ZONE_COUNTRIES.
+export const COUNTRY_TIME_ZONES: Record<string, string> = {
+  AD: "Europe/Andorra",
+  AE: "Asia/Dubai",
+  AF: "Asia/Kabul",
+  AG: "America/Antigua",
+  AI: "America/Anguilla",
+  AL: "Europe/Tirane",
+  AM: "Asia/Yerevan",
+  AO: "Africa/Luanda",
+  AR: "America/Argentina/Buenos_Aires",
+  AS: "Pacific/Pago_Pago",
+  AT: "Europe/Vienna",
+  AU: "Australia/Sydney",
+  AW: "America/Aruba",
+  AX: "Europe/Mariehamn",
+  AZ: "Asia/Baku",
+  BA: "Europe/Sarajevo",
+  BB: "America/Barbados",
+  BD: "Asia/Dhaka",
+  BE: "Europe/Brussels",
+  BF: "Africa/Ouagadougou",
+  BG: "Europe/Sofia",
+  BH: "Asia/Bahrain",
+  BI: "Africa/Bujumbura",
+  BJ: "Africa/Porto-Novo",
+  BL: "America/St_Barthelemy",
+  BM: "Atlantic/Bermuda",
+  BN: "Asia/Brunei",
+  BO: "America/La_Paz",
+  BQ: "America/Kralendijk",
+  BR: "America/Sao_Paulo",
+  BS: "America/Nassau",
+  BT: "Asia/Thimphu",
+  BW: "Africa/Gaborone",
+  BY: "Europe/Minsk",
+  BZ: "America/Belize",
+  CA: "America/Toronto",
+  CC: "Indian/Cocos",
+  CD: "Africa/Kinshasa",
+  CF: "Africa/Bangui",
+  CG: "Africa/Brazzaville",
+  CH: "Europe/Zurich",
+  CI: "Africa/Abidjan",
+  CK: "Pacific/Rarotonga",
+  CL: "America/Santiago",
+  CM: "Africa/Douala",
+  CN: "Asia/Shanghai",
+  CO: "America/Bogota",
+  CR: "America/Costa_Rica",
+  CU: "America/Havana",
+  CV: "Atlantic/Cape_Verde",
+  CW: "America/Curacao",
+  CX: "Indian/Christmas",
+  CY: "Asia/Nicosia",
+  CZ: "Europe/Prague",
+  DE: "Europe/Berlin",
+  DJ: "Africa/Djibouti",
+  DK: "Europe/Copenhagen",
+  DM: "America/Dominica",
+  DO: "America/Santo_Domingo",
+  DZ: "Africa/Algiers",
+  EC: "America/Guayaquil",
+  EE: "Europe/Tallinn",
+  EG: "Africa/Cairo",
+  EH: "Africa/El_Aaiun",
+  ER: "Africa/Asmara",
+  ES: "Europe/Madrid",
+  ET: "Africa/Addis_Ababa",
+  FI: "Europe/Helsinki",
+  FJ: "Pacific/Fiji",
+  FK: "Atlantic/Stanley",
+  FM: "Pacific/Pohnpei",
+  FO: "Atlantic/Faroe",
+  FR: "Europe/Paris",
+  GA: "Africa/Libreville",
+  GB: "Europe/London",
+  GD: "America/Grenada",
+  GE: "Asia/Tbilisi",
+  GF: "America/Cayenne",
+  GG: "Europe/Guernsey",
+  GH: "Africa/Accra",
+  GI: "Europe/Gibraltar",
+  GL: "America/Nuuk",
+  GM: "Africa/Banjul",
+  GN: "Africa/Conakry",
+  GP: "America/Guadeloupe",
+  GQ: "Africa/Malabo",
+  GR: "Europe/Athens",
+  GS: "Atlantic/South_Georgia",
+  GT: "America/Guatemala",
+  GU: "Pacific/Guam",
+  GW: "Africa/Bissau",
+  GY: "America/Guyana",
+  HK: "Asia/Hong_Kong",
+  HN: "America/Tegucigalpa",
+  HR: "Europe/Zagreb",
+  HT: "America/Port-au-Prince",
+  HU: "Europe/Budapest",
+  ID: "Asia/Jakarta",
+  IE: "Europe/Dublin",
+  IL: "Asia/Jerusalem",
+  IM: "Europe/Isle_of_Man",
+  IN: "Asia/Kolkata",
+  IO: "Indian/Chagos",
+  IQ: "Asia/Baghdad",
+  IR: "Asia/Tehran",
+  IS: "Atlantic/Reykjavik",
+  IT: "Europe/Rome",
+  JE: "Europe/Jersey",
+  JM: "America/Jamaica",
+  JO: "Asia/Amman",
+  JP: "Asia/Tokyo",
+  KE: "Africa/Nairobi",
+  KG: "Asia/Bishkek",
+  KH: "Asia/Phnom_Penh",
+  KI: "Pacific/Tarawa",
+  KM: "Indian/Comoro",
+  KN: "America/St_Kitts",
+  KP: "Asia/Pyongyang",
+  KR: "Asia/Seoul",
+  KW: "Asia/Kuwait",
+  KY: "America/Cayman",
+  KZ: "Asia/Almaty",
+  LA: "Asia/Vientiane",
+  LB: "Asia/Beirut",
+  LC: "America/St_Lucia",
+  LI: "Europe/Vaduz",
+  LK: "Asia/Colombo",
+  LR: "Africa/Monrovia",
+  LS: "Africa/Maseru",
+  LT: "Europe/Vilnius",
+  LU: "Europe/Luxembourg",
+  LV: "Europe/Riga",
+  LY: "Africa/Tripoli",
+  MA: "Africa/Casablanca",
+  MC: "Europe/Monaco",
+  MD: "Europe/Chisinau",
+  ME: "Europe/Podgorica",
+  MF: "America/Marigot",
+  MG: "Indian/Antananarivo",
+  MH: "Pacific/Majuro",
+  MK: "Europe/Skopje",
+  ML: "Africa/Bamako",
+  MM: "Asia/Yangon",
+  MN: "Asia/Ulaanbaatar",
+  MO: "Asia/Macau",
+  MP: "Pacific/Saipan",
+  MQ: "America/Martinique",
+  MR: "Africa/Nouakchott",
+  MS: "America/Montserrat",
+  MT: "Europe/Malta",
+  MU: "Indian/Mauritius",
+  MV: "Indian/Maldives",
+  MW: "Africa/Blantyre",
+  MX: "America/Mexico_City",
+  MY: "Asia/Kuala_Lumpur",
+  MZ: "Africa/Maputo",
+  NA: "Africa/Windhoek",
+  NC: "Pacific/Noumea",
+  NE: "Africa/Niamey",
+  NF: "Pacific/Norfolk",
+  NG: "Africa/Lagos",
+  NI: "America/Managua",
+  NL: "Europe/Amsterdam",
+  NO: "Europe/Oslo",
+  NP: "Asia/Kathmandu",
+  NR: "Pacific/Nauru",
+  NU: "Pacific/Niue",
+  NZ: "Pacific/Auckland",
+  OM: "Asia/Muscat",
+  PA: "America/Panama",
+  PE: "America/Lima",
+  PF: "Pacific/Tahiti",
+  PG: "Pacific/Port_Moresby",
+  PH: "Asia/Manila",
+  PK: "Asia/Karachi",
+  PL: "Europe/Warsaw",
+  PM: "America/Miquelon",
+  PN: "Pacific/Pitcairn",
+  PR: "America/Puerto_Rico",
+  PS: "Asia/Gaza",
+  PT: "Europe/Lisbon",
+  PW: "Pacific/Palau",
+  PY: "America/Asuncion",
+  QA: "Asia/Qatar",
+  RE: "Indian/Reunion",
+  RO: "Europe/Bucharest",
+  RS: "Europe/Belgrade",
+  RU: "Europe/Moscow",
+  RW: "Africa/Kigali",
+  SA: "Asia/Riyadh",
+  SB: "Pacific/Guadalcanal",
+  SC: "Indian/Mahe",
+  SD: "Africa/Khartoum",
+  SE: "Europe/Stockholm",
+  SG: "Asia/Singapore",
+  SH: "Atlantic/St_Helena",
+  SI: "Europe/Ljubljana",
+  SJ: "Arctic/Longyearbyen",
+  SK: "Europe/Bratislava",
+  SL: "Africa/Freetown",
+  SM: "Europe/San_Marino",
+  SN: "Africa/Dakar",
+  SO: "Africa/Mogadishu",
+  SR: "America/Paramaribo",
+  SS: "Africa/Juba",
+  ST: "Africa/Sao_Tome",
+  SV: "America/El_Salvador",
+  SX: "America/Lower_Princes",
+  SY: "Asia/Damascus",
+  SZ: "Africa/Mbabane",
+  TC: "America/Grand_Turk",
+  TD: "Africa/Ndjamena",
+  TF: "Indian/Kerguelen",
+  TG: "Africa/Lome",
+  TH: "Asia/Bangkok",
+  TJ: "Asia/Dushanbe",
+  TK: "Pacific/Fakaofo",
+  TL: "Asia/Dili",
+  TM: "Asia/Ashgabat",
+  TN: "Africa/Tunis",
+  TO: "Pacific/Tongatapu",
+  TR: "Europe/Istanbul",
+  TT: "America/Port_of_Spain",
+  TV: "Pacific/Funafuti",
+  TW: "Asia/Taipei",
+  TZ: "Africa/Dar_es_Salaam",
+  UA: "Europe/Kiev",
+  UG: "Africa/Kampala",
+  US: "America/New_York",
+  UY: "America/Montevideo",
+  UZ: "Asia/Tashkent",
+  VA: "Europe/Vatican",
+  VC: "America/St_Vincent",
+  VE: "America/Caracas",
+  VG: "America/Tortola",
+  VI: "America/St_Thomas",
+  VN: "Asia/Ho_Chi_Minh",
+  VU: "Pacific/Efate",
+  WF: "Pacific/Wallis",
+  WS: "Pacific/Apia",
+  XK: "Europe/Belgrade",
+  YE: "Asia/Aden",
+  YT: "Indian/Mayotte",
+  ZA: "Africa/Johannesburg",
+  ZM: "Africa/Lusaka",
+  ZW: "Africa/Harare",
+};
+
+export const MULTI_ZONE_COUNTRIES: Record<string, string[]> = {
+  AU: [
+    "Australia/Sydney",
+    "Australia/Brisbane",
+    "Australia/Adelaide",
+    "Australia/Darwin",
+    "Australia/Perth",
+  ],
+  BR: ["America/Sao_Paulo", "America/Manaus", "America/Rio_Branco"],
+  CA: [
+    "America/Toronto",
+    "America/Halifax",
+    "America/St_Johns",
+    "America/Winnipeg",
+    "America/Edmonton",
+    "America/Vancouver",
+  ],
+  CL: ["America/Santiago", "Pacific/Easter"],
+  EC: ["America/Guayaquil", "Pacific/Galapagos"],
+  ES: ["Europe/Madrid", "Atlantic/Canary"],
+  ID: ["Asia/Jakarta", "Asia/Makassar", "Asia/Jayapura"],
+  MX: ["America/Mexico_City", "America/Cancun", "America/Tijuana"],
+  PT: ["Europe/Lisbon", "Atlantic/Azores"],
+  RU: [
+    "Europe/Moscow",
+    "Europe/Kaliningrad",
+    "Asia/Yekaterinburg",
+    "Asia/Novosibirsk",
+    "Asia/Vladivostok",
+  ],
+  US: [
+    "America/New_York",
+    "America/Chicago",
+    "America/Denver",
+    "America/Los_Angeles",
+    "America/Anchorage",
+    "Pacific/Honolulu",
+  ],
+};
+
+/* ---------- zones ---------- */
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// One formatter per zone; creating them is slow and reminders need many lookups
+function formatterFor(timeZone: string) {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The country's main zone, or the phone's where there's no entry for it
+export function countryTimeZone(countryCode: string): string {
+  const zone = COUNTRY_TIME_ZONES[countryCode.trim().toUpperCase()];
+  return zone && isValidTimeZone(zone) ? zone : deviceTimeZone();
+}
+
+// Zones worth offering for a country, its main one first
+export function countryTimeZoneChoices(countryCode: string): string[] {
+  const cc = countryCode.trim().toUpperCase();
+  return MULTI_ZONE_COUNTRIES[cc] ?? [countryTimeZone(cc)];
+}
+
+// The visa's own zone when it has a usable one, otherwise its country's
+export function visaTimeZone(v: Visa): string {
+  return v.timeZone && isValidTimeZone(v.timeZone) ? v.timeZone : countryTimeZone(v.countryCode);
+}
+
+// "Asia/Ho_Chi_Minh" -> "Ho Chi Minh"
+export function timeZoneCity(timeZone: string) {
+  return (timeZone.split("/").pop() ?? timeZone).replace(/_/g, " ");
+}
+
+/* ---------- wall clock ---------- */
+
+function wallClock(at: Date, timeZone: string) {
+  const parts = formatterFor(timeZone).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour") % 24, // some engines print midnight as 24
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// How far the zone's clock is ahead of UTC at that instant, in ms
+function zoneOffset(at: Date, timeZone: string) {
+  const w = wallClock(at, timeZone);
+  const asUTC = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  return asUTC - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+// The calendar date in the zone right now (or at `at`), as YYYY-MM-DD
+export function todayIn(timeZone: string, at = new Date()) {
+  const w = wallClock(at, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}`;
+}
+
+// The zone's clock at that instant, as HH:MM
+export function timeIn(timeZone: string, at: Date) {
+  const w = wallClock(at, timeZone);
+  return `${String(w.hour).padStart(2, "0")}:${String(w.minute).padStart(2, "0")}`;
+}
+
+// The instant the zone's clock reads `hour:minute` on `dateStr`. The offset is
+// checked again at the result, since a DST change may lie between the two.
+export function zonedTime(dateStr: string, hour: number, minute: number, timeZone: string) {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const wall = Date.UTC(y, m - 1, d, hour, minute);
+  let at = wall - zoneOffset(new Date(wall), timeZone);
+  const recheck = zoneOffset(new Date(at), timeZone);
+  if (wall - recheck !== at) at = wall - recheck;
+  return new Date(at);
+}
+
+// The moment a last legal day ends: midnight after it, on the zone's clock
+export function endOfDayIn(dateStr: string, timeZone: string) {
+  const next = addDaysUTC(dateStr, 1).toISOString().slice(0, 10);
+  return zonedTime(next, 0, 0, timeZone);
+}
+
+// e.g. "5h 20m", for the countdown on the last day
+export function formatTimeLeft(ms: number) {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
@@ -0,0 +1,147 @@
+import { DurationUnit, isValidDateYYYYMMDD } from "./dates";
+import { isCountryCode } from "./countries";
+import { MAX_PROFILE_NAME, PROFILE_COLORS } from "./profiles";
+
+// Rules for the fields a person types in: the add/edit form and CSV import
+// both go through here so they accept exactly the same values.
+
+export type VisaInput = {
+  countryCode: string;
+  visaLabel: string;
+  entryDate: string; // YYYY-MM-DD
+  durationDays: string;
+  durationUnit?: DurationUnit; // days when omitted
+};
+
+// Long enough for long-term residence permits
+export const MAX_DURATION: Record<DurationUnit, number> = {
+  days: 3650,
+  months: 120,
+  years: 10,
+};
+
+export type ValidVisaInput = {
+  countryCode: string;
+  visaLabel: string;
+  entryDate: string;
+  durationDays: number;
+  durationUnit?: DurationUnit; // omitted for days, like stored visas
+};
+
+export type InputError = { title: string; message: string };
+
+export function validateVisaInput(
+  input: VisaInput
+): { ok: true; value: ValidVisaInput } | { ok: false; error: InputError } {
+  const cc = input.countryCode.trim().toUpperCase();
+  const label = input.visaLabel.trim();
+  const dd = input.durationDays.trim();
+
+  if (!isCountryCode(cc)) {
+    return fail("Invalid country code", "Use a 2-letter ISO code like VN, TH, JP.");
+  }
+  if (!label) {
+    return fail("Missing visa label", "Example: Tourist, Business, Student.");
+  }
+  if (!isValidDateYYYYMMDD(input.entryDate)) {
+    return fail("Invalid entry date", "Use format YYYY-MM-DD (example: 2026-01-14).");
+  }
+
+  const unit = input.durationUnit ?? "days";
+  const max = MAX_DURATION[unit];
+  const amount = Number(dd);
+  if (!dd || !Number.isInteger(amount) || amount < 1 || amount > max) {
+    return fail("Invalid duration", `Duration must be a whole number from 1 to ${max} ${unit}.`);
+  }
+
+  return {
+    ok: true,
+    value: {
+      countryCode: cc,
+      visaLabel: label,
+      entryDate: input.entryDate,
+      durationDays: amount,
+      durationUnit: unit === "days" ? undefined : unit,
+    },
+  };
+}
+
+export type PassportInput = {
+  issuingCountry: string;
+  number: string;
+  issueDate: string;  // YYYY-MM-DD
+  expiryDate: string; // YYYY-MM-DD
+};
+
+export type ValidPassportInput = PassportInput;
+
+// The passport form; the number is kept without spaces, in capitals
+export function validatePassportInput(
+  input: PassportInput
+): { ok: true; value: ValidPassportInput } | { ok: false; error: InputError } {
+  const cc = input.issuingCountry.trim().toUpperCase();
+  // Printed numbers are sometimes read out with spaces
+  const number = input.number.replace(/\s+/g, "").toUpperCase();
+
+  if (!isCountryCode(cc)) {
+    return fail("Invalid issuing country", "Pick the country that issued the passport.");
+  }
+  if (!/^[A-Z0-9]{5,20}$/.test(number)) {
+    return fail("Invalid passport number", "Use the letters and digits as printed.");
+  }
+  if (!isValidDateYYYYMMDD(input.issueDate)) {
+    return fail("Invalid issue date", "Use format YYYY-MM-DD (example: 2021-03-15).");
+  }
+  if (!isValidDateYYYYMMDD(input.expiryDate)) {
+    return fail("Invalid expiry date", "Use format YYYY-MM-DD (example: 2031-03-14).");
+  }
+  if (input.expiryDate <= input.issueDate) {
+    return fail("Invalid expiry date", "Expiry must be after the issue date.");
+  }
+
+  return {
+    ok: true,
+    value: {
+      issuingCountry: cc,
+      number,
+      issueDate: input.issueDate,
+      expiryDate: input.expiryDate,
+    },
+  };
+}
+
+export type ProfileInput = {
+  name: string;
+  nationality: string; // "" when not given
+  color: string;
+};
+
+export type ValidProfileInput = {
+  name: string;
+  nationality?: string;
+  color: string;
+};
+
+// The traveller form
+export function validateProfileInput(
+  input: ProfileInput
+): { ok: true; value: ValidProfileInput } | { ok: false; error: InputError } {
+  const name = input.name.trim();
+  const cc = input.nationality.trim().toUpperCase();
+
+  if (!name || name.length > MAX_PROFILE_NAME) {
+    return fail("Invalid name", `Use 1 to ${MAX_PROFILE_NAME} characters.`);
+  }
+  if (cc && !isCountryCode(cc)) {
+    return fail("Invalid nationality", "Pick a country from the list.");
+  }
+  if (!PROFILE_COLORS.includes(input.color)) {
+    return fail("Invalid colour", "Pick one of the colours shown.");
+  }
+
+  return { ok: true, value: { name, nationality: cc || undefined, color: input.color } };
+}
+
+function fail(title: string, message: string): { ok: false; error: InputError } {
+  return { ok: false, error: { title, message } };
+}